@@ -58,6 +58,8 @@ async function main() {
 		sourcesContent: false,
 		platform: 'node',
 		outfile: 'dist/extension.js',
+		// jsonc-parser's UMD build loads its modules through a require esbuild cannot follow; use its ES module build
+		mainFields: ['module', 'main'],
 		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
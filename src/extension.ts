@@ -7,14 +7,31 @@ import {
 	removeMarketplaceFromTree,
 	previewItem,
 	installPluginFromTree,
+	uninstallPlugin,
+	openInstalledItem,
+	revealInstalledItem,
+	removeInstalledEntry,
+	updateAllPlugins,
+	restoreFromLockfile,
+	installRecommendedPlugins,
+	checkRecommendedPlugins,
+	exportInstalledPlugins,
+	importPlugins,
+	selectInstallFolder,
 	gitHubSignIn,
 	gitHubAuthStatus
 } from './features/commands';
 import { CONFIG_SECTION, LOG_LEVEL_KEY, MARKETPLACES_KEY, CACHE_DURATION_KEY, getMarketplaceUrls, getCacheDurationDays } from './features/config';
 import { createMarketplaceTreeView, MarketplaceNode } from './features/treeview';
+import { createInstalledTreeView } from './features/installed-view';
+import { exportOperationHistory, showOperationHistory } from './features/history-view';
 import { onDidChangeGitHubAuth } from './features/github-auth';
 import { initLogger } from './features/logger';
 import { initializeCache } from './features/cache';
+import { onDidChangeInstalledPlugins } from './features/manifest';
+import { onDidChangePluginUpdates, refreshPluginUpdates } from './features/updates';
+import { initInstallValidation } from './features/validation';
+import { removeLeftoverStagingFolders } from './features/delegation';
 import { prefetchMarketplaces, onMarketplaceCacheUpdated, clearMarketplaceCache } from './features/marketplace';
 
 export interface ExtensionServices {
@@ -92,6 +109,9 @@ export function activate(context: vscode.ExtensionContext) {
 		staleTTL: cacheDurationMs  // Same as fresh - no stale window, just refresh when expired
 	});
 
+	// Report problems in installed skill and agent files in the Problems panel
+	initInstallValidation(context);
+
 	// Prefetch marketplace data in background to warm the cache
 	const urls = getMarketplaceUrls();
 	if (urls.length > 0) {
@@ -101,6 +121,9 @@ export function activate(context: vscode.ExtensionContext) {
 	const { treeView, provider } = createMarketplaceTreeView(services);
 	context.subscriptions.push(treeView);
 
+	const { treeView: installedTreeView, provider: installedProvider } = createInstalledTreeView(services);
+	context.subscriptions.push(installedTreeView);
+
 	// Refresh tree view when background cache refresh completes
 	context.subscriptions.push(
 		onMarketplaceCacheUpdated(() => {
@@ -109,6 +132,14 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Re-check for updates after installs/uninstalls and refresh update badges when results change
+	context.subscriptions.push(
+		onDidChangeInstalledPlugins(() => {
+			refreshPluginUpdates(context).catch((err) => logger.warn(`Failed to check for plugin updates: ${err}`));
+		}),
+		onDidChangePluginUpdates(() => provider.refresh())
+	);
+
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeConfiguration((event) => {
 			if (event.affectsConfiguration(`${CONFIG_SECTION}.${MARKETPLACES_KEY}`)) {
@@ -130,6 +161,20 @@ export function activate(context: vscode.ExtensionContext) {
 		}),
 		vscode.commands.registerCommand('vscode-agent-plugins.previewItem', (node) => previewItem(services, node)),
 		vscode.commands.registerCommand('vscode-agent-plugins.installPlugin', (node) => installPluginFromTree(services, node)),
+		vscode.commands.registerCommand('vscode-agent-plugins.installItem', (node) => installPluginFromTree(services, node)),
+		vscode.commands.registerCommand('vscode-agent-plugins.uninstallPlugin', (node) => uninstallPlugin(services, node)),
+		vscode.commands.registerCommand('vscode-agent-plugins.refreshInstalledView', () => installedProvider.refresh()),
+		vscode.commands.registerCommand('vscode-agent-plugins.updateAllPlugins', () => updateAllPlugins(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.restoreFromLockfile', () => restoreFromLockfile(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.installRecommendedPlugins', () => installRecommendedPlugins(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.exportInstalledPlugins', () => exportInstalledPlugins(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.importPlugins', () => importPlugins(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.selectInstallFolder', () => selectInstallFolder(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.showHistory', () => showOperationHistory(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.exportHistory', () => exportOperationHistory(services)),
+		vscode.commands.registerCommand('vscode-agent-plugins.openInstalledItem', (node) => openInstalledItem(node)),
+		vscode.commands.registerCommand('vscode-agent-plugins.revealInstalledItem', (node) => revealInstalledItem(node)),
+		vscode.commands.registerCommand('vscode-agent-plugins.removeInstalledEntry', (node) => removeInstalledEntry(services, node)),
 		vscode.commands.registerCommand('vscode-agent-plugins.gitHubSignIn', () => gitHubSignIn(services)),
 		vscode.commands.registerCommand('vscode-agent-plugins.gitHubAuthStatus', () => gitHubAuthStatus(services)),
 		vscode.commands.registerCommand('vscode-agent-plugins.openMarketplaceRepo', (node: MarketplaceNode) => {
@@ -159,6 +204,12 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Clear out staging folders of installs that were interrupted before they could clean up
+	removeLeftoverStagingFolders(context).catch((err) => logger.warn(`Failed to remove leftover staging folders: ${err}`));
+
+	// Offer the plugins a repository recommends that are not installed yet
+	checkRecommendedPlugins(services).catch((err) => logger.warn(`Failed to check recommended plugins: ${err}`));
+
 	logger.info('vscode-agent-plugins extension activated');
 }
 
@@ -0,0 +1,272 @@
+import * as zlib from 'node:zlib';
+import { fetchWithGitHubAuth } from './github-auth';
+import { fetchLocalFile, isFileUrl } from './local-marketplace';
+
+export interface ArchiveEntry {
+    /** POSIX path relative to the archive root, with a shared top-level folder stripped. */
+    path: string;
+    content: Buffer;
+}
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+/** Caps on what extracting one archive may produce, so a small zip or tar bomb cannot exhaust memory. */
+export interface ArchiveLimits {
+    maxEntries: number;
+    /** Total size of the extracted files, and of the decompressed tar stream. */
+    maxTotalBytes: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+    maxEntries: 10_000,
+    maxTotalBytes: 100 * 1024 * 1024
+};
+
+const GITHUB_HOSTS = new Set(['github.com', 'codeload.github.com', 'api.github.com', 'raw.githubusercontent.com']);
+
+/**
+ * Tell whether a download URL points at an archive we can extract, judging by its file extension.
+ */
+export function archiveFormatFromUrl(url: string): ArchiveFormat | undefined {
+    let pathname: string;
+    try {
+        pathname = new URL(url).pathname.toLowerCase();
+    } catch {
+        return undefined;
+    }
+
+    if (pathname.endsWith('.zip')) {
+        return 'zip';
+    }
+    if (pathname.endsWith('.tar.gz') || pathname.endsWith('.tgz')) {
+        return 'tar.gz';
+    }
+    return undefined;
+}
+
+/**
+ * Download an archive, or read it from disk for a local marketplace. GitHub credentials are only sent to GitHub hosts
+ * so tokens never leak to other servers.
+ */
+export async function downloadArchive(url: string): Promise<Buffer> {
+    const host = new URL(url).hostname.toLowerCase();
+    const response = isFileUrl(url)
+        ? await fetchLocalFile(url)
+        : GITHUB_HOSTS.has(host) ? await fetchWithGitHubAuth(url) : await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+}
+
+function toSafeEntryPath(name: string): string | undefined {
+    const normalized = name.replace(/\\/g, '/').replace(/^\.\//, '');
+    if (normalized.startsWith('/') || /^[a-z]:/i.test(normalized)) {
+        throw new Error(`Archive entry '${name}' has an absolute path.`);
+    }
+
+    const segments = normalized.split('/').filter((segment) => segment.length > 0 && segment !== '.');
+    if (segments.includes('..')) {
+        throw new Error(`Archive entry '${name}' escapes the archive root.`);
+    }
+    return segments.length > 0 ? segments.join('/') : undefined;
+}
+
+function tooLargeError(limits: ArchiveLimits): Error {
+    return new Error(`Archive expands to more than ${Math.round(limits.maxTotalBytes / (1024 * 1024))} MB; refusing to extract it.`);
+}
+
+function tooManyEntriesError(limits: ArchiveLimits): Error {
+    return new Error(`Archive has more than ${limits.maxEntries} entries; refusing to extract it.`);
+}
+
+/**
+ * Run a zlib decompression that may produce at most `maxOutputLength` bytes, reporting an overrun as a size error.
+ */
+function decompressWithin(decompress: (options: zlib.ZlibOptions) => Buffer, maxOutputLength: number, limits: ArchiveLimits): Buffer {
+    try {
+        return decompress({ maxOutputLength: Math.max(1, maxOutputLength) });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw tooLargeError(limits);
+        }
+        throw error;
+    }
+}
+
+function readNullTerminated(buffer: Buffer, start: number, length: number): string {
+    const slice = buffer.subarray(start, start + length);
+    const end = slice.indexOf(0);
+    return slice.subarray(0, end === -1 ? slice.length : end).toString('utf8');
+}
+
+function parsePaxPath(content: Buffer): string | undefined {
+    let offset = 0;
+    while (offset < content.length) {
+        const space = content.indexOf(0x20, offset);
+        if (space === -1) {
+            break;
+        }
+        const length = parseInt(content.subarray(offset, space).toString('utf8'), 10);
+        if (!Number.isFinite(length) || length <= 0) {
+            break;
+        }
+        const record = content.subarray(space + 1, offset + length - 1).toString('utf8');
+        const separator = record.indexOf('=');
+        if (separator !== -1 && record.slice(0, separator) === 'path') {
+            return record.slice(separator + 1);
+        }
+        offset += length;
+    }
+    return undefined;
+}
+
+function extractTar(tar: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+    let overridePath: string | undefined;
+    let headerCount = 0;
+
+    while (offset + 512 <= tar.length) {
+        const header = tar.subarray(offset, offset + 512);
+        if (header.every((byte) => byte === 0)) {
+            break;
+        }
+        if (++headerCount > limits.maxEntries) {
+            throw tooManyEntriesError(limits);
+        }
+
+        const size = parseInt(readNullTerminated(header, 124, 12).trim() || '0', 8);
+        const type = String.fromCharCode(header[156] || 0x30);
+        const dataStart = offset + 512;
+        const content = tar.subarray(dataStart, dataStart + size);
+        offset = dataStart + Math.ceil(size / 512) * 512;
+
+        if (type === 'L') {
+            overridePath = readNullTerminated(content, 0, content.length);
+            continue;
+        }
+        if (type === 'x') {
+            overridePath = parsePaxPath(content) ?? overridePath;
+            continue;
+        }
+        if (type === 'g') {
+            continue;
+        }
+
+        const prefix = header.subarray(257, 262).toString('utf8') === 'ustar' ? readNullTerminated(header, 345, 155) : '';
+        const name = overridePath ?? (prefix ? `${prefix}/${readNullTerminated(header, 0, 100)}` : readNullTerminated(header, 0, 100));
+        overridePath = undefined;
+
+        // Only regular files are installed; links and directories carry no content of their own
+        if (type !== '0' && type !== '7') {
+            continue;
+        }
+
+        const entryPath = toSafeEntryPath(name);
+        if (entryPath) {
+            entries.push({ path: entryPath, content: Buffer.from(content) });
+        }
+    }
+
+    return entries;
+}
+
+function extractZip(zip: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+    const minimumEnd = Math.max(0, zip.length - 0xffff - 22);
+    let endOfCentralDirectory = -1;
+    for (let index = zip.length - 22; index >= minimumEnd; index--) {
+        if (zip.readUInt32LE(index) === 0x06054b50) {
+            endOfCentralDirectory = index;
+            break;
+        }
+    }
+    if (endOfCentralDirectory === -1) {
+        throw new Error('Not a valid zip archive: end of central directory not found.');
+    }
+
+    const entryCount = zip.readUInt16LE(endOfCentralDirectory + 10);
+    let offset = zip.readUInt32LE(endOfCentralDirectory + 16);
+    if (entryCount === 0xffff || offset === 0xffffffff) {
+        throw new Error('ZIP64 archives are not supported.');
+    }
+    if (entryCount > limits.maxEntries) {
+        throw tooManyEntriesError(limits);
+    }
+
+    const entries: ArchiveEntry[] = [];
+    let totalBytes = 0;
+    for (let index = 0; index < entryCount; index++) {
+        if (zip.readUInt32LE(offset) !== 0x02014b50) {
+            throw new Error('Not a valid zip archive: corrupt central directory.');
+        }
+
+        const method = zip.readUInt16LE(offset + 10);
+        const compressedSize = zip.readUInt32LE(offset + 20);
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+        const localOffset = zip.readUInt32LE(offset + 42);
+        const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) {
+            continue;
+        }
+
+        const localNameLength = zip.readUInt16LE(localOffset + 26);
+        const localExtraLength = zip.readUInt16LE(localOffset + 28);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+        let content: Buffer;
+        if (method === 0) {
+            content = Buffer.from(data);
+        } else if (method === 8) {
+            content = decompressWithin((options) => zlib.inflateRawSync(data, options), limits.maxTotalBytes - totalBytes, limits);
+        } else {
+            throw new Error(`Zip entry '${name}' uses unsupported compression method ${method}.`);
+        }
+        totalBytes += content.length;
+        if (totalBytes > limits.maxTotalBytes) {
+            throw tooLargeError(limits);
+        }
+
+        const entryPath = toSafeEntryPath(name);
+        if (entryPath) {
+            entries.push({ path: entryPath, content });
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Drop a single folder that wraps every entry (as in GitHub's `<repo>-<sha>/` archives)
+ * so entry paths line up with paths in the marketplace.
+ */
+function stripSharedRoot(entries: ArchiveEntry[]): ArchiveEntry[] {
+    const roots = new Set(entries.map((entry) => entry.path.split('/')[0]));
+    if (roots.size !== 1 || entries.some((entry) => !entry.path.includes('/'))) {
+        return entries;
+    }
+
+    const root = Array.from(roots)[0];
+    return entries.map((entry) => ({ ...entry, path: entry.path.slice(root.length + 1) }));
+}
+
+/**
+ * Extract every regular file of a `.zip` or `.tar.gz` archive into memory, detecting the format from its bytes.
+ * Throws once the archive has more entries or expands to more bytes than `limits` allow.
+ */
+export function extractArchive(bytes: Buffer, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): ArchiveEntry[] {
+    if (bytes.length >= 4 && bytes.readUInt32LE(0) === 0x04034b50) {
+        return stripSharedRoot(extractZip(bytes, limits));
+    }
+    if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+        // File sizes in a tar never add up to more than the tar itself, so capping the stream caps the files
+        const tar = decompressWithin((options) => zlib.gunzipSync(bytes, options), limits.maxTotalBytes, limits);
+        return stripSharedRoot(extractTar(tar, limits));
+    }
+    throw new Error('Unsupported archive format; expected a .zip or .tar.gz file.');
+}
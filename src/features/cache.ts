@@ -233,8 +233,11 @@ export function getCache(): MarketplaceCache | undefined {
 export const CacheKeys = {
     marketplace: (url: string) => `marketplace:${url}`,
     allMarketplaces: (urls: string[]) => `marketplaces:${urls.sort().join('|')}`,
+    defaultBranch: (owner: string, repo: string) => `branch:${owner}/${repo}`,
     repoDirectory: (owner: string, repo: string, branch: string, path: string) =>
         `dir:${owner}/${repo}/${branch}:${path}`,
     pluginConfig: (owner: string, repo: string, branch: string, source: string) =>
-        `config:${owner}/${repo}/${branch}:${source}`
+        `config:${owner}/${repo}/${branch}:${source}`,
+    compare: (owner: string, repo: string, base: string, head: string) =>
+        `compare:${owner}/${repo}:${base}...${head}`
 };
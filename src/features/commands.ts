@@ -1,38 +1,79 @@
+import * as path from 'node:path';
 import * as vscode from 'vscode';
 import type { ExtensionServices } from '../extension';
 import {
     CONFIG_SECTION,
     MARKETPLACES_KEY,
+    getInstallLayout,
     getMarketplaceUrls,
     getMarketplaceUrlsForTarget,
     pickSettingsTarget,
-    updateMarketplaceUrls
+    updateMarketplaceUrls,
+    type InstallLayout
 } from './config';
 import { getNonce, isSafeUrl, escapeHtml } from './utils';
 import {
+    applyInstallPlan,
     buildInstallPayload,
+    createInstallPlan,
+    detectInstallConflicts,
     executeInstall,
+    executeUninstall,
+    narrowPluginToItems,
     resolveAgentsPath,
-    type InstallScope
+    resolveLocalEdits,
+    resolveMcpValues,
+    type InstallConflict,
+    type InstallPlan,
+    type InstallScope,
+    type LocalEdit,
+    type LocalEditResolution,
+    type OperationResult,
+    type PluginItemSelection
 } from './delegation';
+import {
+    findInstalledPlugin,
+    getInstalledPlugins,
+    installedPluginKey,
+    type ConflictResolution,
+    type InstalledPluginRecord
+} from './manifest';
+import { LOCKFILE_NAME, lockedPluginKey, matchesLockedFiles, readLockfile, type Lockfile } from './lockfile';
 import {
     fetchAllMarketplaces,
     fetchGroupItemDescription,
     fetchGroupItemContent,
     clearMarketplaceCache,
+    getHookCommands,
+    HOOKS_GROUP_KEY,
+    MCP_SERVERS_GROUP_KEY,
     type MarketplacePlugin,
+    type MarketplacePluginGroup,
     type MarketplaceGroupItem
 } from './marketplace';
 import {
     createMarketplacePanel,
     createMarketplaceWebviewHtml,
     createPluginKeyMap,
+    pluginKey,
     toWebviewData,
     type MarketplacePanelMessage,
     type MarketplaceViewModel
 } from './webview';
 import type { ItemNode, MarketplacePlugin as TreePluginType } from './treeview';
 import { signInToGitHub, isSignedInToGitHub } from './github-auth';
+import { getPluginUpdates, onDidChangePluginUpdates, refreshPluginUpdates, type PluginUpdate } from './updates';
+import { primaryFileForItem, type InstalledItemNode, type InstalledPluginNode } from './installed-view';
+import { showInstallPreview } from './install-preview';
+import { getMcpConfigPath, handOffUserMcpServers, type McpValuePrompt } from './mcp';
+import {
+    RECOMMENDATIONS_FILE,
+    findMissingRecommendations,
+    findRecommendedPlugins,
+    isSameMarketplace,
+    readRecommendations
+} from './recommendations';
+import { createPluginSet, parsePluginSet, type PluginSet } from './plugin-set';
 
 async function loadMarketplaceViewModel(
     logger: ExtensionServices['logger'],
@@ -72,14 +113,21 @@ async function loadMarketplaceViewModel(
 
 export async function addMarketplaceUrl({ logger }: ExtensionServices): Promise<void> {
     const input = await vscode.window.showInputBox({
-        prompt: 'Enter a marketplace URL that points to marketplace.json',
+        prompt: 'Enter a marketplace URL that points to marketplace.json, or a local folder (file:// URL, absolute path, or path relative to the workspace folder)',
         placeHolder: 'https://example.com/marketplace.json',
         ignoreFocusOut: true,
         validateInput: (value) => {
+            const trimmed = value.trim();
+            if (!trimmed) {
+                return 'Enter a URL or a folder path.';
+            }
+            if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+                return undefined;
+            }
             try {
-                const parsed = new URL(value.trim());
-                if (!/^https?:$/i.test(parsed.protocol)) {
-                    return 'Only http/https URLs are supported.';
+                const parsed = new URL(trimmed);
+                if (!/^(https?|file):$/i.test(parsed.protocol)) {
+                    return 'Only http/https and file URLs are supported.';
                 }
                 return undefined;
             } catch {
@@ -184,44 +232,355 @@ export async function removeMarketplaceFromTree({ logger }: ExtensionServices, n
     vscode.window.showInformationMessage('Marketplace removed.');
 }
 
+/**
+ * Ask how each conflicting item should be installed. Returns undefined when the user cancels the install.
+ */
+async function resolveInstallConflicts(
+    conflicts: InstallConflict[]
+): Promise<Map<string, ConflictResolution> | undefined> {
+    const resolutions = new Map<string, ConflictResolution>();
+    for (const [index, conflict] of conflicts.entries()) {
+        const owner = conflict.conflictsWith ? `the one from "${conflict.conflictsWith}"` : 'existing files';
+        const namespaceOption = `Install as ${path.basename(conflict.namespacedPath)}`;
+        const remaining = conflicts.length - index - 1;
+        const choice = await vscode.window.showWarningMessage(
+            `"${conflict.item}" (${conflict.group}) from "${conflict.plugin}" would overwrite ${owner} at ${vscode.workspace.asRelativePath(conflict.targetPath)}.`
+                + (remaining > 0 ? `\n${remaining} more conflict(s) to resolve.` : ''),
+            { modal: true },
+            namespaceOption,
+            'Overwrite',
+            'Skip'
+        );
+
+        if (!choice) {
+            return undefined;
+        }
+        resolutions.set(conflict.key, choice === 'Overwrite' ? 'overwrite' : choice === 'Skip' ? 'skip' : 'namespace');
+    }
+
+    return resolutions;
+}
+
+/**
+ * Ask whether to keep, take or merge each locally modified file an update would change.
+ * Returns undefined when the user cancels the install.
+ */
+async function promptLocalEdits(edits: LocalEdit[]): Promise<Map<string, LocalEditResolution> | undefined> {
+    const resolutions = new Map<string, LocalEditResolution>();
+    for (const [index, edit] of edits.entries()) {
+        const remaining = edits.length - index - 1;
+        const choice = await vscode.window.showWarningMessage(
+            `${vscode.workspace.asRelativePath(edit.file.targetPath)} of "${edit.item}" (${edit.group}) from "${edit.plugin}" was changed locally since it was installed, and the update changes it too.`
+                + (remaining > 0 ? `\n${remaining} more modified file(s) to review.` : ''),
+            { modal: true },
+            'Keep Mine',
+            'Take Theirs',
+            'Merge'
+        );
+
+        if (!choice) {
+            return undefined;
+        }
+        resolutions.set(edit.file.targetPath, choice === 'Keep Mine' ? 'keep' : choice === 'Take Theirs' ? 'take' : 'merge');
+    }
+
+    return resolutions;
+}
+
+/**
+ * Ask whether an uninstall should also delete the files that were changed locally since they were installed.
+ * Returns undefined when the user cancels the uninstall.
+ */
+async function promptUninstallLocalEdits(files: string[]): Promise<boolean | undefined> {
+    const choice = await vscode.window.showWarningMessage(
+        `${files.length} file(s) were changed locally since they were installed:\n`
+            + files.map((file) => vscode.workspace.asRelativePath(file)).join('\n'),
+        { modal: true },
+        'Keep Them',
+        'Delete Them'
+    );
+    return choice === undefined ? undefined : choice === 'Delete Them';
+}
+
+/**
+ * Ask for each environment variable MCP servers need but the environment does not set.
+ * Returns undefined when the user cancels the install.
+ */
+async function promptMcpValues(prompts: McpValuePrompt[]): Promise<Map<string, string> | undefined> {
+    const values = new Map<string, string>();
+    for (const prompt of prompts) {
+        const value = await vscode.window.showInputBox({
+            title: `MCP server value: ${prompt.variable}`,
+            prompt: `${prompt.variable} is not set in the environment. Enter the value for ${prompt.servers.join(', ')}; it is written to the MCP configuration as plain text.`,
+            ignoreFocusOut: true
+        });
+
+        if (value === undefined) {
+            return undefined;
+        }
+        values.set(prompt.variable, value);
+    }
+
+    return values;
+}
+
+/**
+ * Hooks run shell commands on their own, so every install that includes hooks lists their commands and needs
+ * an explicit go-ahead. Returns true when there are no hooks or the user accepts them.
+ */
+async function confirmHookInstall(
+    plugins: MarketplacePlugin[],
+    selections?: Map<string, PluginItemSelection[]>
+): Promise<boolean> {
+    const commands = plugins.flatMap((plugin) => {
+        const items = selections?.get(installedPluginKey(plugin.id, plugin.sourceUrl));
+        const selected = items ? narrowPluginToItems(plugin, items) : plugin;
+        return selected.groups
+            .filter((group) => group.key === HOOKS_GROUP_KEY)
+            .flatMap((group) => group.items.flatMap((item) => item.hook
+                ? getHookCommands(item.hook).map((command) => `${plugin.name} › ${item.name}: ${command}`)
+                : []));
+    });
+    if (commands.length === 0) {
+        return true;
+    }
+
+    const shown = commands.slice(0, 10).join('\n');
+    const more = commands.length > 10 ? `\n…and ${commands.length - 10} more` : '';
+    const choice = await vscode.window.showWarningMessage(
+        `This install includes hooks. Hooks run shell commands automatically, with your permissions, whenever their event fires. Only install hooks from sources you trust.\n\n${shown}${more}`,
+        { modal: true },
+        'Install Hooks'
+    );
+    return choice === 'Install Hooks';
+}
+
+/**
+ * Folders of an install layout for a scope, with the groups that share each folder.
+ */
+function getLayoutFolders(layout: InstallLayout, scope: InstallScope): Array<{ folder: string; groups: string[] }> {
+    const folders = new Map<string, string[]>();
+    for (const [group, groupLayout] of Object.entries(layout.groups)) {
+        const folder = scope === 'workspace' ? groupLayout.workspace : groupLayout.user;
+        folders.set(folder, [...(folders.get(folder) ?? []), group]);
+    }
+    return Array.from(folders, ([folder, groups]) => ({ folder, groups }));
+}
+
+const INSTALL_FOLDER_KEY = 'installWorkspaceFolder';
+
+export interface InstallFolderChoices {
+    /** Remembered install folder, when it is still open. */
+    remembered?: vscode.WorkspaceFolder;
+    /** Folders in the order they are offered: the remembered folder, or else the active editor's, comes first. */
+    ordered: vscode.WorkspaceFolder[];
+}
+
+/**
+ * Work out which workspace folder to suggest for workspace-scope installs.
+ */
+export function getInstallFolderChoices(
+    folders: readonly vscode.WorkspaceFolder[],
+    rememberedUri: string | undefined,
+    activeFolder: vscode.WorkspaceFolder | undefined
+): InstallFolderChoices {
+    const remembered = folders.find((folder) => folder.uri.toString() === rememberedUri);
+    const suggestedIndex = (remembered ?? activeFolder)?.index;
+    const ordered = folders.slice().sort((left, right) => Number(right.index === suggestedIndex) - Number(left.index === suggestedIndex));
+    return { remembered, ordered };
+}
+
+/**
+ * Pick the workspace folder that workspace-scope installs go to. A single-folder workspace needs no choice.
+ * In a multi-root workspace the folder remembered for this workspace is used; without one (or when `prompt` is set)
+ * the user is asked, with the active editor's folder suggested first, and the answer is remembered.
+ */
+async function pickInstallWorkspaceFolder(
+    services: ExtensionServices,
+    prompt = false
+): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length <= 1) {
+        return folders[0];
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    const { remembered, ordered } = getInstallFolderChoices(folders, services.context.workspaceState.get<string>(INSTALL_FOLDER_KEY), activeFolder);
+    if (remembered && !prompt) {
+        return remembered;
+    }
+
+    const pick = await vscode.window.showQuickPick(
+        ordered.map((folder) => ({
+            label: folder.name,
+            description: folder.index === remembered?.index
+                ? 'Current install folder'
+                : folder.index === activeFolder?.index ? 'Active editor' : undefined,
+            detail: `${folder.uri.fsPath} • ${getInstalledPlugins(services.context, 'workspace', folder.uri.fsPath).length} plugin(s) installed`,
+            folder
+        })),
+        { placeHolder: 'Select the workspace folder to install plugins into' }
+    );
+
+    if (!pick) {
+        return undefined;
+    }
+
+    await services.context.workspaceState.update(INSTALL_FOLDER_KEY, pick.folder.uri.toString());
+    return pick.folder;
+}
+
+/**
+ * Change the workspace folder that workspace-scope installs go to in a multi-root workspace.
+ */
+export async function selectInstallFolder(services: ExtensionServices): Promise<void> {
+    if ((vscode.workspace.workspaceFolders?.length ?? 0) < 2) {
+        vscode.window.showInformationMessage('Workspace installs go to the only open workspace folder.');
+        return;
+    }
+
+    const folder = await pickInstallWorkspaceFolder(services, true);
+    if (folder) {
+        services.logger.info(`Workspace installs now go to '${folder.uri.fsPath}'.`);
+        vscode.window.showInformationMessage(`Workspace plugins will be installed into "${folder.name}".`);
+    }
+}
+
 async function performDelegatedInstall(
     services: ExtensionServices,
     marketplaceUrls: string[],
     selectedPlugins: MarketplacePlugin[],
-    scope: InstallScope
+    scope: InstallScope,
+    selections?: Map<string, PluginItemSelection[]>,
+    workspaceFolder?: vscode.WorkspaceFolder
 ): Promise<void> {
-    const targetPath = resolveAgentsPath(scope);
-    if (!targetPath) {
+    if (scope === 'workspace' && !vscode.workspace.workspaceFolders?.length) {
         vscode.window.showErrorMessage('Workspace scope install requires an open workspace folder.');
         return;
     }
 
-    const targetSummary =
-        scope === 'workspace'
-            ? `Skills: ${targetPath}\\.agents\\skills\nAgents: ${targetPath}\\.github\\agents`
-            : `Root: ${targetPath}\\<marketplace-name>\\<plugin-name>\\(skills|agents)`;
-
+    const folder = scope === 'workspace' ? workspaceFolder ?? await pickInstallWorkspaceFolder(services) : undefined;
+    const targetPath = resolveAgentsPath(scope, folder);
+    if (!targetPath || (scope === 'workspace' && !folder)) {
+        return;
+    }
+    const isMultiRoot = scope === 'workspace' && (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+
+    const layout = getInstallLayout();
+    const hasMcpServers = selectedPlugins.some((plugin) => plugin.groups.some((group) => group.key === MCP_SERVERS_GROUP_KEY));
+    const mcpConfigPath = hasMcpServers ? getMcpConfigPath(scope, targetPath) : undefined;
+    const targetSummary = [
+        ...(isMultiRoot && folder ? [`Folder: ${folder.name}`] : []),
+        `Layout: ${layout.preset}`,
+        ...getLayoutFolders(layout, scope).map(({ folder, groups }) => `${groups.join(', ')}: ${path.join(targetPath, folder)}`),
+        ...(hasMcpServers ? [`MCP servers: ${mcpConfigPath ?? 'offered for your user MCP configuration after the install'}`] : [])
+    ].join('\n');
+
+    const partialCount = Array.from(selections?.values() ?? []).reduce((sum, items) => sum + items.length, 0);
+    const selectionSummary = partialCount > 0 ? ` (${partialCount} individually selected item(s))` : '';
     const confirmation = await vscode.window.showWarningMessage(
-        `Install/update ${selectedPlugins.length} plugin(s) in ${scope} scope?\n${targetSummary}`,
+        `Install/update ${selectedPlugins.length} plugin(s)${selectionSummary} in ${scope} scope?\n${targetSummary}`,
         { modal: true },
-        'Continue'
+        'Continue',
+        'Preview Install',
+        ...(isMultiRoot ? ['Change Folder'] : [])
     );
 
-    if (confirmation !== 'Continue') {
+    if (confirmation === 'Change Folder') {
+        const changed = await pickInstallWorkspaceFolder(services, true);
+        if (changed) {
+            await performDelegatedInstall(services, marketplaceUrls, selectedPlugins, scope, selections, changed);
+        }
+        return;
+    }
+    if (confirmation !== 'Continue' && confirmation !== 'Preview Install') {
+        return;
+    }
+    if (!(await confirmHookInstall(selectedPlugins, selections))) {
+        services.logger.info('Install cancelled at the hook warning.');
         return;
     }
 
-    const payload = buildInstallPayload(selectedPlugins, scope, targetPath, marketplaceUrls);
-    services.logger.info(`Installing ${selectedPlugins.length} plugin(s) to ${scope} scope at '${targetPath}'.`);
-    const result = await executeInstall(services.context, selectedPlugins, payload);
+    const payload = buildInstallPayload(selectedPlugins, scope, targetPath, marketplaceUrls, selections);
+    const conflicts = await detectInstallConflicts(services.context, selectedPlugins, payload);
+    const conflictResolutions = await resolveInstallConflicts(conflicts);
+    if (!conflictResolutions) {
+        services.logger.info('Install cancelled while resolving conflicts.');
+        return;
+    }
 
+    if (confirmation === 'Preview Install') {
+        let plan: InstallPlan;
+        try {
+            plan = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Computing install plan…' },
+                () => createInstallPlan(services.context, selectedPlugins, payload, { conflictResolutions })
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Install preview failed: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        showInstallPreview(services, plan, async (approved) => {
+            if (!(await resolveLocalEdits(approved, promptLocalEdits))) {
+                services.logger.info('Install cancelled while resolving locally modified files.');
+                return;
+            }
+            if (!(await resolveMcpValues(approved, promptMcpValues))) {
+                services.logger.info('Install cancelled while asking for MCP server values.');
+                return;
+            }
+            services.logger.info(`Installing previewed plan of ${selectedPlugins.length} plugin(s) to ${scope} scope at '${targetPath}'.`);
+            reportInstallResult(scope, approved.layout, selectedPlugins.length, await applyInstallPlan(services.context, approved));
+        });
+        return;
+    }
 
+    services.logger.info(`Installing ${selectedPlugins.length} plugin(s) to ${scope} scope at '${targetPath}'.`);
+    const result = await executeInstall(services.context, selectedPlugins, payload, {
+        conflictResolutions,
+        resolveLocalEdits: promptLocalEdits,
+        resolveMcpValues: promptMcpValues
+    });
+    reportInstallResult(scope, layout, selectedPlugins.length, result);
+}
+
+function reportInstallResult(scope: InstallScope, layout: InstallLayout, pluginCount: number, result: OperationResult): void {
+    if (result.cancelled) {
+        return;
+    }
     if (result.success) {
-        vscode.window.showInformationMessage(
-            scope === 'workspace'
-                ? `Installed/updated ${selectedPlugins.length} plugin(s) in workspace (.agents/skills and .github/agents).`
-                : `Installed/updated ${selectedPlugins.length} plugin(s) in user scope (~/.copilot/installed-plugins).`
-        );
+        const installedSummary = scope === 'workspace'
+            ? `Installed/updated ${pluginCount} plugin(s) in workspace (${getLayoutFolders(layout, scope).map(({ folder }) => folder).join(', ')}).`
+            : `Installed/updated ${pluginCount} plugin(s) in user scope (${layout.userRoot}).`;
+        const skipped = result.skippedGroups ?? [];
+        const problemCount = result.problemCount ?? 0;
+        if (skipped.length === 0 && problemCount === 0) {
+            vscode.window.showInformationMessage(installedSummary);
+            return;
+        }
+
+        const skippedSummary = skipped.length > 0
+            ? ` Skipped: ${skipped.map((entry) => `${entry.plugin} › ${entry.group} (${entry.itemCount}): ${entry.reason}`).join('; ')}`
+            : '';
+        const problemSummary = problemCount > 0 ? ` Found ${problemCount} problem(s) in the installed files.` : '';
+        const userMcpServers = result.userMcpServers ?? [];
+        const showProblems = 'Show Problems';
+        const addMcpServers = 'Add MCP Servers';
+        void vscode.window.showWarningMessage(
+            `${installedSummary}${skippedSummary}${problemSummary}`,
+            ...(problemCount > 0 ? [showProblems] : []),
+            ...(userMcpServers.length > 0 ? [addMcpServers] : [])
+        ).then(async (choice) => {
+            if (choice === showProblems) {
+                void vscode.commands.executeCommand('workbench.actions.view.problems');
+            } else if (choice === addMcpServers) {
+                await handOffUserMcpServers(userMcpServers);
+                vscode.window.showInformationMessage(
+                    `The entries of ${userMcpServers.length} MCP server(s) were copied to the clipboard. Add them to "servers" (and "inputs") of your user mcp.json.`
+                );
+            }
+        });
         return;
     }
 
@@ -246,10 +605,18 @@ export async function browseMarketplace(services: ExtensionServices): Promise<vo
             type: 'state',
             data: toWebviewData(viewModel)
         });
+        checkForUpdates();
     };
 
     panel.webview.html = createMarketplaceWebviewHtml(panel, services.context.extensionUri, viewModel);
 
+    const checkForUpdates = (): void => {
+        refreshPluginUpdates(services.context, viewModel.plugins).catch((error) => {
+            services.logger.warn(`Failed to check for plugin updates: ${error}`);
+        });
+    };
+    checkForUpdates();
+
     const marketplaceConfigWatcher = vscode.workspace.onDidChangeConfiguration(async (event) => {
         if (!event.affectsConfiguration(`${CONFIG_SECTION}.${MARKETPLACES_KEY}`)) {
             return;
@@ -259,7 +626,14 @@ export async function browseMarketplace(services: ExtensionServices): Promise<vo
         await refreshPanelState();
     });
 
-    const panelDisposables: vscode.Disposable[] = [marketplaceConfigWatcher];
+    const updatesWatcher = onDidChangePluginUpdates(async () => {
+        await panel.webview.postMessage({
+            type: 'updates',
+            data: toWebviewData(viewModel)
+        });
+    });
+
+    const panelDisposables: vscode.Disposable[] = [marketplaceConfigWatcher, updatesWatcher];
 
     panel.onDidDispose(() => {
         panelDisposables.forEach(d => d.dispose());
@@ -291,12 +665,27 @@ export async function browseMarketplace(services: ExtensionServices): Promise<vo
                     .map((key) => pluginKeyMap.get(key))
                     .filter((plugin): plugin is MarketplacePlugin => Boolean(plugin));
 
+                // Individually checked items only matter for plugins that are not selected as a whole
+                const selections = new Map<string, PluginItemSelection[]>();
+                for (const selectedItem of message.selectedItems ?? []) {
+                    const plugin = pluginKeyMap.get(selectedItem.pluginKey);
+                    if (!plugin || message.selectedKeys.includes(selectedItem.pluginKey)) {
+                        continue;
+                    }
+
+                    if (!selections.has(selectedItem.pluginKey)) {
+                        selections.set(selectedItem.pluginKey, []);
+                        selectedPlugins.push(plugin);
+                    }
+                    selections.get(selectedItem.pluginKey)?.push({ group: selectedItem.groupKey, name: selectedItem.itemName });
+                }
+
                 if (selectedPlugins.length === 0) {
-                    vscode.window.showWarningMessage('Select at least one plugin to install/update.');
+                    vscode.window.showWarningMessage('Select at least one plugin or item to install/update.');
                     return;
                 }
 
-                await performDelegatedInstall(services, viewModel.marketplaceUrls, selectedPlugins, message.scope);
+                await performDelegatedInstall(services, viewModel.marketplaceUrls, selectedPlugins, message.scope, selections);
                 return;
             }
 
@@ -454,7 +843,9 @@ function createPreviewWebviewHtml(
         commands: 'terminal-cmd',
         tools: 'wrench',
         prompts: 'comment-discussion',
-        workflows: 'git-merge'
+        workflows: 'git-merge',
+        'mcp servers': 'server',
+        hooks: 'zap'
     };
     const iconName = groupIconMap[groupName.toLowerCase()] || 'file';
 
@@ -777,13 +1168,24 @@ export async function previewItem(services: ExtensionServices, node: ItemNode):
     );
 }
 
-export async function installPluginFromTree(services: ExtensionServices, node: { type: string; plugin: MarketplacePlugin }): Promise<void> {
-    if (!node || node.type !== 'plugin' || !node.plugin) {
+export async function installPluginFromTree(
+    services: ExtensionServices,
+    node: { type: string; plugin: MarketplacePlugin; group?: MarketplacePluginGroup; item?: MarketplaceGroupItem }
+): Promise<void> {
+    if (!node || !['plugin', 'group', 'item'].includes(node.type) || !node.plugin) {
         vscode.window.showWarningMessage('No plugin selected.');
         return;
     }
 
     const plugin = node.plugin;
+    const selections = new Map<string, PluginItemSelection[]>();
+    if (node.type === 'group' && node.group) {
+        const groupKey = node.group.key;
+        selections.set(pluginKey(plugin), node.group.items.map((item) => ({ group: groupKey, name: item.name })));
+    } else if (node.type === 'item' && node.group && node.item) {
+        selections.set(pluginKey(plugin), [{ group: node.group.key, name: node.item.name }]);
+    }
+
     const scopePick = await vscode.window.showQuickPick(
         [
             { label: 'Workspace', scope: 'workspace' as InstallScope, description: 'Install to local workspace' },
@@ -796,7 +1198,550 @@ export async function installPluginFromTree(services: ExtensionServices, node: {
         return;
     }
 
-    await performDelegatedInstall(services, [plugin.sourceUrl], [plugin], scopePick.scope);
+    await performDelegatedInstall(services, [plugin.sourceUrl], [plugin], scopePick.scope, selections);
+}
+
+function describeInstallTarget(record: InstalledPluginRecord): string {
+    if (record.scope === 'user') {
+        return 'User';
+    }
+    if ((vscode.workspace.workspaceFolders?.length ?? 0) < 2) {
+        return 'Workspace';
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(record.targetPath));
+    return `Workspace • ${folder?.name ?? path.basename(record.targetPath)}`;
+}
+
+async function pickInstalledPlugin(
+    services: ExtensionServices,
+    plugin?: MarketplacePlugin
+): Promise<InstalledPluginRecord | undefined> {
+    const scopes: InstallScope[] = ['workspace', 'user'];
+    const pluginKeyToFind = plugin ? installedPluginKey(plugin.id, plugin.sourceUrl) : undefined;
+    const candidates = scopes.flatMap((scope) => getInstalledPlugins(services.context, scope).filter(
+        (record) => !pluginKeyToFind || installedPluginKey(record.id, record.sourceUrl) === pluginKeyToFind
+    ));
+
+    if (candidates.length === 0) {
+        vscode.window.showInformationMessage(
+            plugin ? `"${plugin.name}" is not installed.` : 'No installed plugins were found.'
+        );
+        return undefined;
+    }
+
+    if (candidates.length === 1 && plugin) {
+        return candidates[0];
+    }
+
+    const pick = await vscode.window.showQuickPick(
+        candidates.map((record) => ({
+            label: record.name,
+            description: describeInstallTarget(record),
+            detail: `${record.items.length} item(s) • ${record.sourceUrl}`,
+            record
+        })),
+        { placeHolder: 'Select an installed plugin to uninstall' }
+    );
+
+    return pick?.record;
+}
+
+/**
+ * Reinstall every installed plugin whose marketplace entry has moved on, in the scope it was installed to.
+ */
+export async function updateAllPlugins(services: ExtensionServices): Promise<void> {
+    const updates = getPluginUpdates();
+    if (updates.length === 0) {
+        vscode.window.showInformationMessage('All installed plugins are up to date.');
+        return;
+    }
+
+    // Updates go back to where each plugin was installed: one install per scope and workspace folder
+    const batches = new Map<string, PluginUpdate[]>();
+    for (const update of updates) {
+        const batchKey = `${update.record.scope}::${update.record.targetPath}`;
+        batches.set(batchKey, [...(batches.get(batchKey) ?? []), update]);
+    }
+
+    for (const batch of batches.values()) {
+        const { scope, targetPath } = batch[0].record;
+        const workspaceFolder = scope === 'workspace'
+            ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(targetPath))
+            : undefined;
+        if (scope === 'workspace' && workspaceFolder?.uri.fsPath !== targetPath) {
+            services.logger.warn(`Skipping updates for '${targetPath}': the folder is no longer part of the workspace.`);
+            continue;
+        }
+
+        // Partially installed plugins are updated item-by-item so unselected items stay uninstalled
+        const selections = new Map<string, PluginItemSelection[]>();
+        for (const update of batch.filter((entry) => entry.record.partial)) {
+            selections.set(
+                installedPluginKey(update.record.id, update.record.sourceUrl),
+                update.record.items.map((item) => ({ group: item.group, name: item.name }))
+            );
+        }
+
+        const plugins = batch.map((update) => update.plugin);
+        const marketplaceUrls = Array.from(new Set(plugins.map((plugin) => plugin.sourceUrl)));
+        await performDelegatedInstall(services, marketplaceUrls, plugins, scope, selections, workspaceFolder);
+    }
+}
+
+/**
+ * Reinstall the plugins recorded in the workspace lockfile at their locked commits, with the same conflict and
+ * local-edit checks as any other install, then verify the installed files against the locked hashes.
+ */
+export async function restoreFromLockfile(services: ExtensionServices): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('Restoring from a lockfile requires an open workspace folder.');
+        return;
+    }
+
+    const workspaceFolder = await pickInstallWorkspaceFolder(services);
+    if (!workspaceFolder) {
+        return;
+    }
+    const workspaceRoot = workspaceFolder.uri.fsPath;
+
+    let lockfile: Lockfile | undefined;
+    try {
+        lockfile = await readLockfile(workspaceRoot);
+    } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        return;
+    }
+    if (!lockfile || lockfile.plugins.length === 0) {
+        vscode.window.showInformationMessage(`No plugins are recorded in ${LOCKFILE_NAME}.`);
+        return;
+    }
+
+    const marketplaceUrls = Array.from(new Set(lockfile.plugins.map((entry) => entry.marketplaceUrl)));
+    const fetched = await fetchAllMarketplaces(marketplaceUrls);
+    const available = new Map(fetched.plugins.map((plugin) => [installedPluginKey(plugin.id, plugin.sourceUrl), plugin]));
+
+    const plugins: MarketplacePlugin[] = [];
+    const selections = new Map<string, PluginItemSelection[]>();
+    const pinnedCommits = new Map<string, string>();
+    const missing: string[] = [];
+    for (const entry of lockfile.plugins) {
+        const plugin = available.get(lockedPluginKey(entry));
+        if (!plugin) {
+            missing.push(entry.name);
+            continue;
+        }
+
+        plugins.push(plugin);
+        if (entry.partial) {
+            selections.set(lockedPluginKey(entry), entry.items.map((item) => ({ group: item.group, name: item.name })));
+        }
+        if (entry.commit) {
+            pinnedCommits.set(lockedPluginKey(entry), entry.commit);
+        }
+    }
+
+    if (missing.length > 0) {
+        services.logger.warn(`Lockfile plugins not found in their marketplaces: ${missing.join(', ')}`);
+        vscode.window.showWarningMessage(`${missing.length} locked plugin(s) could not be found: ${missing.join(', ')}`);
+    }
+    if (plugins.length === 0) {
+        return;
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+        `Restore ${plugins.length} plugin(s) from ${LOCKFILE_NAME} at their locked revisions?`,
+        { modal: true },
+        'Restore'
+    );
+    if (confirmation !== 'Restore' || !(await confirmHookInstall(plugins, selections))) {
+        return;
+    }
+
+    const payload = buildInstallPayload(plugins, 'workspace', workspaceRoot, marketplaceUrls, selections);
+    // Files from a checkout that already match the lockfile are what the restore writes, not a conflict
+    const conflicts: InstallConflict[] = [];
+    for (const conflict of await detectInstallConflicts(services.context, plugins, payload)) {
+        if (conflict.conflictsWith || !(await matchesLockedFiles(workspaceRoot, lockfile, conflict.targetPath))) {
+            conflicts.push(conflict);
+        }
+    }
+    const conflictResolutions = await resolveInstallConflicts(conflicts);
+    if (!conflictResolutions) {
+        services.logger.info('Restore cancelled while resolving conflicts.');
+        return;
+    }
+
+    services.logger.info(`Restoring ${plugins.length} plugin(s) from ${LOCKFILE_NAME}.`);
+    const result = await executeInstall(services.context, plugins, payload, {
+        pinnedCommits,
+        conflictResolutions,
+        resolveLocalEdits: promptLocalEdits,
+        resolveMcpValues: promptMcpValues
+    });
+    if (result.cancelled) {
+        return;
+    }
+    if (!result.success) {
+        vscode.window.showErrorMessage(`Restore failed: ${result.error ?? 'Unknown error'}`);
+        return;
+    }
+
+    const mismatched: string[] = [];
+    for (const entry of lockfile.plugins) {
+        const record = findInstalledPlugin(services.context, 'workspace', entry.pluginId, entry.marketplaceUrl, workspaceRoot);
+        const installedHashes = Object.assign({}, ...(record?.items ?? []).map((item) => item.fileHashes ?? {})) as Record<string, string>;
+        for (const [relativePath, hash] of Object.entries(entry.files)) {
+            if (installedHashes[path.join(workspaceRoot, relativePath)] !== hash) {
+                mismatched.push(relativePath);
+            }
+        }
+    }
+
+    if (mismatched.length > 0) {
+        services.logger.warn(`Restored files differing from ${LOCKFILE_NAME}: ${mismatched.join(', ')}`);
+        vscode.window.showWarningMessage(
+            `Restored ${plugins.length} plugin(s), but ${mismatched.length} file(s) differ from the locked hashes. See the output log for details.`
+        );
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Restored ${plugins.length} plugin(s) from ${LOCKFILE_NAME}.`);
+}
+
+/**
+ * Install the plugins recommended by a workspace folder's `.vscode/agent-plugins.json` that are not installed yet.
+ * Plugins are looked up in the marketplaces listed in the file as well as the configured ones, and items that collide
+ * with installed ones go through the same conflict choice as any other install.
+ */
+export async function installRecommendedPlugins(
+    services: ExtensionServices,
+    workspaceFolder?: vscode.WorkspaceFolder
+): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('Installing recommended plugins requires an open workspace folder.');
+        return;
+    }
+
+    const folder = workspaceFolder ?? await pickInstallWorkspaceFolder(services);
+    if (!folder) {
+        return;
+    }
+    const workspaceRoot = folder.uri.fsPath;
+
+    const recommendations = await readRecommendations(workspaceRoot);
+    if (!recommendations || recommendations.plugins.length === 0) {
+        vscode.window.showInformationMessage(`No plugins are recommended in ${RECOMMENDATIONS_FILE} of "${folder.name}".`);
+        return;
+    }
+    const wanted = findMissingRecommendations(services.context, workspaceRoot, recommendations);
+    if (wanted.length === 0) {
+        vscode.window.showInformationMessage('All recommended plugins are installed.');
+        return;
+    }
+
+    const marketplaceUrls = Array.from(new Set([...recommendations.marketplaces, ...getMarketplaceUrls()]));
+    const fetched = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Looking up recommended plugins…' },
+        () => fetchAllMarketplaces(marketplaceUrls)
+    );
+
+    const { plugins, selections, missing } = findRecommendedPlugins(fetched.plugins, wanted);
+
+    if (missing.length > 0) {
+        services.logger.warn(`Recommended plugins not found in any marketplace: ${missing.join(', ')}`);
+        vscode.window.showWarningMessage(`${missing.length} recommended plugin(s) could not be found: ${missing.join(', ')}`);
+    }
+    if (plugins.length === 0) {
+        return;
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+        `Install ${plugins.length} recommended plugin(s) into "${folder.name}"?\n${plugins.map((plugin) => plugin.name).join(', ')}`,
+        { modal: true },
+        'Install'
+    );
+    if (confirmation !== 'Install' || !(await confirmHookInstall(plugins, selections))) {
+        return;
+    }
+
+    const payload = buildInstallPayload(plugins, 'workspace', workspaceRoot, marketplaceUrls, selections);
+    const conflicts = await detectInstallConflicts(services.context, plugins, payload);
+    const conflictResolutions = await resolveInstallConflicts(conflicts);
+    if (!conflictResolutions) {
+        services.logger.info('Install of recommended plugins cancelled while resolving conflicts.');
+        return;
+    }
+
+    services.logger.info(`Installing ${plugins.length} recommended plugin(s) from ${RECOMMENDATIONS_FILE}.`);
+    const result = await executeInstall(services.context, plugins, payload, {
+        conflictResolutions,
+        resolveLocalEdits: promptLocalEdits,
+        resolveMcpValues: promptMcpValues
+    });
+    reportInstallResult('workspace', getInstallLayout(), plugins.length, result);
+}
+
+const DISMISSED_RECOMMENDATIONS_KEY = 'dismissedRecommendations';
+
+/**
+ * Offer to install recommended plugins that are missing from the open workspace folders.
+ * "Don't Ask Again" is remembered per workspace until the set of missing plugins changes.
+ */
+export async function checkRecommendedPlugins(services: ExtensionServices): Promise<void> {
+    const dismissed = services.context.workspaceState.get<Record<string, string>>(DISMISSED_RECOMMENDATIONS_KEY, {});
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const recommendations = await readRecommendations(folder.uri.fsPath);
+        if (!recommendations) {
+            continue;
+        }
+
+        const missing = findMissingRecommendations(services.context, folder.uri.fsPath, recommendations);
+        const missingKey = missing.map((entry) => `${entry.marketplace ?? ''}::${entry.id}`).sort().join('|');
+        if (missing.length === 0 || dismissed[folder.uri.toString()] === missingKey) {
+            continue;
+        }
+
+        const folderLabel = (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? ` "${folder.name}"` : '';
+        const choice = await vscode.window.showInformationMessage(
+            `This workspace${folderLabel} recommends ${missing.length} agent plugin(s) that are not installed: ${missing.map((entry) => entry.id).join(', ')}.`,
+            'Install',
+            'Don\'t Ask Again'
+        );
+        if (choice === 'Install') {
+            await installRecommendedPlugins(services, folder);
+        } else if (choice === 'Don\'t Ask Again') {
+            await services.context.workspaceState.update(DISMISSED_RECOMMENDATIONS_KEY, { ...dismissed, [folder.uri.toString()]: missingKey });
+        }
+    }
+}
+
+/**
+ * Write the chosen installed plugins of both scopes to a portable JSON file that **Import Plugins** can install elsewhere.
+ */
+export async function exportInstalledPlugins(services: ExtensionServices): Promise<void> {
+    const records = [...getInstalledPlugins(services.context, 'workspace'), ...getInstalledPlugins(services.context, 'user')];
+    if (records.length === 0) {
+        vscode.window.showInformationMessage('No installed plugins were found.');
+        return;
+    }
+
+    const picks = await vscode.window.showQuickPick(
+        records.map((record) => ({
+            label: record.name,
+            description: describeInstallTarget(record),
+            detail: `${record.partial ? `${record.items.length} selected item(s)` : 'Whole plugin'} • ${record.sourceUrl}`,
+            picked: true,
+            record
+        })),
+        { placeHolder: 'Select the plugins to export', canPickMany: true }
+    );
+    if (!picks || picks.length === 0) {
+        return;
+    }
+
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, 'agent-plugin-set.json') : undefined,
+        filters: { JSON: ['json'] },
+        saveLabel: 'Export Plugins'
+    });
+    if (!target) {
+        return;
+    }
+
+    const pluginSet = createPluginSet(picks.map((pick) => pick.record));
+    await vscode.workspace.fs.writeFile(target, Buffer.from(`${JSON.stringify(pluginSet, undefined, 2)}\n`, 'utf8'));
+    services.logger.info(`Exported ${pluginSet.plugins.length} plugin(s) to ${target.fsPath}.`);
+    vscode.window.showInformationMessage(`Exported ${pluginSet.plugins.length} plugin(s) to ${target.fsPath}.`);
+}
+
+/**
+ * Install the plugins of an exported plugin set, adding the marketplaces it needs to settings first.
+ * Each scope goes through the regular install confirmation.
+ */
+export async function importPlugins(services: ExtensionServices): Promise<void> {
+    const [source] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { JSON: ['json'] },
+        openLabel: 'Import Plugins'
+    }) ?? [];
+    if (!source) {
+        return;
+    }
+
+    let pluginSet: PluginSet;
+    try {
+        pluginSet = parsePluginSet(Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not import ${path.basename(source.fsPath)}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+    if (pluginSet.plugins.length === 0) {
+        vscode.window.showInformationMessage('The plugin set lists no plugins.');
+        return;
+    }
+
+    const configured = getMarketplaceUrls();
+    const newMarketplaces = pluginSet.marketplaceUrls.filter((url) => !configured.some((existing) => isSameMarketplace(existing, url)));
+    const confirmation = await vscode.window.showWarningMessage(
+        `Import ${pluginSet.plugins.length} plugin(s) from ${path.basename(source.fsPath)}?`
+            + (newMarketplaces.length > 0 ? `\nThese marketplaces will be added to settings:\n${newMarketplaces.join('\n')}` : ''),
+        { modal: true },
+        'Import'
+    );
+    if (confirmation !== 'Import') {
+        return;
+    }
+
+    if (newMarketplaces.length > 0) {
+        const target = await pickSettingsTarget();
+        if (!target) {
+            return;
+        }
+        await updateMarketplaceUrls([...getMarketplaceUrlsForTarget(target), ...newMarketplaces], target);
+        services.logger.info(`Added marketplace URL(s) from plugin set: ${newMarketplaces.join(', ')}`);
+    }
+
+    const fetched = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Looking up imported plugins…' },
+        () => fetchAllMarketplaces(pluginSet.marketplaceUrls)
+    );
+
+    const missing: string[] = [];
+    for (const scope of ['workspace', 'user'] as InstallScope[]) {
+        const entries = pluginSet.plugins.filter((entry) => entry.scope === scope);
+        if (entries.length === 0) {
+            continue;
+        }
+        if (scope === 'workspace' && !vscode.workspace.workspaceFolders?.length) {
+            vscode.window.showWarningMessage(`Open a workspace folder to import the ${entries.length} workspace plugin(s).`);
+            continue;
+        }
+
+        const plugins: MarketplacePlugin[] = [];
+        const selections = new Map<string, PluginItemSelection[]>();
+        for (const entry of entries) {
+            const plugin = fetched.plugins.find((candidate) => candidate.id === entry.id && isSameMarketplace(candidate.sourceUrl, entry.sourceUrl));
+            if (!plugin) {
+                missing.push(entry.name);
+                continue;
+            }
+            plugins.push(plugin);
+            if (entry.items) {
+                selections.set(installedPluginKey(plugin.id, plugin.sourceUrl), entry.items);
+            }
+        }
+
+        if (plugins.length > 0) {
+            await performDelegatedInstall(services, pluginSet.marketplaceUrls, plugins, scope, selections);
+        }
+    }
+
+    if (missing.length > 0) {
+        services.logger.warn(`Imported plugins not found in their marketplaces: ${missing.join(', ')}`);
+        vscode.window.showWarningMessage(`${missing.length} imported plugin(s) could not be found: ${missing.join(', ')}`);
+    }
+}
+
+/**
+ * Uninstall a plugin by deleting the files recorded in its install manifest.
+ * Invoked from the command palette or the tree view context menu on plugin nodes.
+ */
+export async function uninstallPlugin(services: ExtensionServices, node?: { type: string; plugin: MarketplacePlugin }): Promise<void> {
+    const plugin = node?.type === 'plugin' ? node.plugin : undefined;
+    const record = await pickInstalledPlugin(services, plugin);
+    if (!record) {
+        return;
+    }
+
+    const fileCount = record.items.reduce((sum, item) => sum + item.files.length, 0);
+    const confirmation = await vscode.window.showWarningMessage(
+        `Uninstall "${record.name}" from ${record.scope} scope?\n${fileCount} file(s) will be deleted.`,
+        { modal: true },
+        'Uninstall'
+    );
+
+    if (confirmation !== 'Uninstall') {
+        return;
+    }
+
+    const result = await executeUninstall(services.context, record, record.items, { deleteLocalEdits: promptUninstallLocalEdits });
+    if (result.cancelled) {
+        return;
+    }
+    if (result.success) {
+        const keptCount = result.keptFiles?.length ?? 0;
+        vscode.window.showInformationMessage(`Uninstalled "${record.name}" (${fileCount - keptCount} file(s) removed`
+            + (keptCount > 0 ? `, ${keptCount} locally modified file(s) kept).` : ').'));
+        return;
+    }
+
+    services.logger.error(`Uninstall of '${record.name}' failed: ${result.error}`);
+    vscode.window.showErrorMessage(`Uninstall failed: ${result.error ?? 'Unknown error'}`);
+}
+
+/**
+ * Open the primary file of an installed item from the Installed view.
+ */
+export async function openInstalledItem(node: InstalledItemNode): Promise<void> {
+    const file = node?.type === 'installedItem' ? primaryFileForItem(node.item) : undefined;
+    if (!file) {
+        return;
+    }
+
+    try {
+        await vscode.window.showTextDocument(vscode.Uri.file(file), { preview: true });
+    } catch {
+        vscode.window.showWarningMessage(`Could not open "${file}". It may have been removed from disk.`);
+    }
+}
+
+/**
+ * Reveal an installed item in the Explorer, or in the OS file manager when it lives outside the workspace.
+ */
+export async function revealInstalledItem(node: InstalledItemNode): Promise<void> {
+    if (node?.type !== 'installedItem') {
+        return;
+    }
+
+    const uri = vscode.Uri.file(node.item.path);
+    if (vscode.workspace.getWorkspaceFolder(uri)) {
+        await vscode.commands.executeCommand('revealInExplorer', uri);
+        return;
+    }
+
+    await vscode.commands.executeCommand('revealFileInOS', uri);
+}
+
+/**
+ * Remove an installed plugin or a single installed item from the Installed view.
+ */
+export async function removeInstalledEntry(
+    services: ExtensionServices,
+    node: InstalledPluginNode | InstalledItemNode
+): Promise<void> {
+    if (!node || (node.type !== 'installedPlugin' && node.type !== 'installedItem')) {
+        return;
+    }
+
+    const items = node.type === 'installedItem' ? [node.item] : node.record.items;
+    const label = node.type === 'installedItem' ? node.item.name : node.record.name;
+    const fileCount = items.reduce((sum, item) => sum + item.files.length, 0);
+    const confirmation = await vscode.window.showWarningMessage(
+        `Remove "${label}" from ${node.record.scope} scope?\n${fileCount} file(s) will be deleted.`,
+        { modal: true },
+        'Remove'
+    );
+
+    if (confirmation !== 'Remove') {
+        return;
+    }
+
+    const result = await executeUninstall(services.context, node.record, items, { deleteLocalEdits: promptUninstallLocalEdits });
+    if (!result.success && !result.cancelled) {
+        services.logger.error(`Removing '${label}' failed: ${result.error}`);
+        vscode.window.showErrorMessage(`Remove failed: ${result.error ?? 'Unknown error'}`);
+    }
 }
 
 /**
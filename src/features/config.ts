@@ -1,9 +1,12 @@
 import * as vscode from 'vscode';
+import { getLogger } from './logger';
 
 export const CONFIG_SECTION = 'agentPlugins';
 export const MARKETPLACES_KEY = 'marketplaces';
 export const LOG_LEVEL_KEY = 'logLevel';
 export const CACHE_DURATION_KEY = 'cacheDuration';
+export const INSTALL_LAYOUT_KEY = 'installLayout';
+export const CUSTOM_INSTALL_LAYOUT_KEY = 'customInstallLayout';
 
 /**
  * Get cache duration in days (default: 7 days).
@@ -12,45 +15,86 @@ export function getCacheDurationDays(): number {
     return vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>(CACHE_DURATION_KEY, 7);
 }
 
-function normalizeUrls(urls: string[] | undefined): string[] {
-    if (!urls) {
-        return [];
-    }
+/**
+ * A configured marketplace: a plain URL string, or `{ "url", "ref" }` to pin it to a tag, branch or commit SHA.
+ */
+export interface MarketplaceEntry {
+    url: string;
+    ref?: string;
+}
+
+type MarketplaceSettingValue = Array<string | { url?: unknown; ref?: unknown }>;
 
-    return Array.from(new Set(urls.map((url) => url.trim()).filter(Boolean)));
+function normalizeEntries(entries: MarketplaceSettingValue | undefined): MarketplaceEntry[] {
+    const byUrl = new Map<string, MarketplaceEntry>();
+    for (const entry of entries ?? []) {
+        const url = (typeof entry === 'string' ? entry : typeof entry?.url === 'string' ? entry.url : '').trim();
+        const ref = typeof entry === 'object' && typeof entry?.ref === 'string' ? entry.ref.trim() : '';
+        if (url && !byUrl.has(url)) {
+            byUrl.set(url, ref ? { url, ref } : { url });
+        }
+    }
+    return Array.from(byUrl.values());
 }
 
 function getMarketplaceSettingInspection() {
-    return vscode.workspace.getConfiguration(CONFIG_SECTION).inspect<string[]>(MARKETPLACES_KEY);
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).inspect<MarketplaceSettingValue>(MARKETPLACES_KEY);
 }
 
-export function getMarketplaceUrlsForTarget(target: vscode.ConfigurationTarget): string[] {
+export function getMarketplaceEntriesForTarget(target: vscode.ConfigurationTarget): MarketplaceEntry[] {
     const inspection = getMarketplaceSettingInspection();
     if (!inspection) {
         return [];
     }
 
     if (target === vscode.ConfigurationTarget.Global) {
-        return normalizeUrls(inspection.globalValue);
+        return normalizeEntries(inspection.globalValue);
     }
 
     if (target === vscode.ConfigurationTarget.Workspace) {
-        return normalizeUrls(inspection.workspaceValue);
+        return normalizeEntries(inspection.workspaceValue);
     }
 
     return [];
 }
 
+export function getMarketplaceUrlsForTarget(target: vscode.ConfigurationTarget): string[] {
+    return getMarketplaceEntriesForTarget(target).map((entry) => entry.url);
+}
+
 export function getMarketplaceUrls(): string[] {
     const globalUrls = getMarketplaceUrlsForTarget(vscode.ConfigurationTarget.Global);
     const workspaceUrls = getMarketplaceUrlsForTarget(vscode.ConfigurationTarget.Workspace);
     return Array.from(new Set([...globalUrls, ...workspaceUrls]));
 }
 
+/**
+ * Refs that configured marketplaces are pinned to, keyed by marketplace URL. Workspace settings win over user settings.
+ */
+export function getMarketplaceRefs(): Map<string, string> {
+    const refs = new Map<string, string>();
+    for (const target of [vscode.ConfigurationTarget.Global, vscode.ConfigurationTarget.Workspace]) {
+        for (const entry of getMarketplaceEntriesForTarget(target)) {
+            if (entry.ref) {
+                refs.set(entry.url, entry.ref);
+            }
+        }
+    }
+    return refs;
+}
+
+/**
+ * Save the marketplace URLs of a settings scope. URLs that were pinned to a ref keep their `{ "url", "ref" }` form.
+ */
 export async function updateMarketplaceUrls(urls: string[], target: vscode.ConfigurationTarget): Promise<void> {
+    const existing = new Map(getMarketplaceEntriesForTarget(target).map((entry) => [entry.url, entry]));
+    const entries = normalizeEntries(urls).map((entry) => {
+        const pinned = existing.get(entry.url);
+        return pinned?.ref ? pinned : entry.url;
+    });
     await vscode.workspace
         .getConfiguration(CONFIG_SECTION)
-        .update(MARKETPLACES_KEY, normalizeUrls(urls), target);
+        .update(MARKETPLACES_KEY, entries, target);
 }
 
 export async function pickSettingsTarget(): Promise<vscode.ConfigurationTarget | undefined> {
@@ -63,4 +107,109 @@ export async function pickSettingsTarget(): Promise<vscode.ConfigurationTarget |
     );
 
     return pick?.target;
-}
\ No newline at end of file
+}
+
+export type InstallLayoutPreset = 'copilot' | 'claude' | 'custom';
+
+export interface GroupLayout {
+    /** Folder relative to the workspace root. */
+    workspace: string;
+    /** Folder relative to the user root; `{marketplace}` and `{plugin}` are replaced per plugin. */
+    user: string;
+    /** Extension for single-file items, e.g. `.agent.md`. */
+    fileSuffix?: string;
+}
+
+export interface InstallLayout {
+    preset: InstallLayoutPreset;
+    /** Root for user-scope installs; a leading `~` stands for the home directory. */
+    userRoot: string;
+    groups: Record<string, GroupLayout>;
+}
+
+export const INSTALL_LAYOUT_PRESETS: Record<Exclude<InstallLayoutPreset, 'custom'>, InstallLayout> = {
+    copilot: {
+        preset: 'copilot',
+        userRoot: '~/.copilot/installed-plugins',
+        groups: {
+            skills: { workspace: '.agents/skills', user: '{marketplace}/{plugin}/skills' },
+            agents: { workspace: '.github/agents', user: '{marketplace}/{plugin}/agents', fileSuffix: '.agent.md' },
+            prompts: { workspace: '.github/prompts', user: '{marketplace}/{plugin}/prompts', fileSuffix: '.prompt.md' },
+            commands: { workspace: '.github/prompts', user: '{marketplace}/{plugin}/prompts', fileSuffix: '.prompt.md' },
+            workflows: { workspace: '.github/prompts', user: '{marketplace}/{plugin}/prompts', fileSuffix: '.prompt.md' },
+            hooks: { workspace: '.github/hooks', user: '{marketplace}/{plugin}/hooks', fileSuffix: '.json' }
+        }
+    },
+    claude: {
+        preset: 'claude',
+        userRoot: '~/.claude',
+        groups: {
+            skills: { workspace: '.claude/skills', user: 'skills' },
+            agents: { workspace: '.claude/agents', user: 'agents', fileSuffix: '.md' },
+            prompts: { workspace: '.claude/commands', user: 'commands', fileSuffix: '.md' },
+            commands: { workspace: '.claude/commands', user: 'commands', fileSuffix: '.md' },
+            workflows: { workspace: '.claude/commands', user: 'commands', fileSuffix: '.md' }
+        }
+    }
+};
+
+/**
+ * True for a layout folder that stays inside the root it is joined to: not absolute, not starting with `~`
+ * and without `..` segments.
+ */
+export function isRelativeLayoutFolder(folder: string): boolean {
+    return !/^([\\/]|[A-Za-z]:|~)/.test(folder.trim()) && !folder.split(/[\\/]+/).some((segment) => segment.trim() === '..');
+}
+
+function layoutFolderOverride(group: string, field: 'workspace' | 'user', value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    if (!isRelativeLayoutFolder(value)) {
+        getLogger()?.warn(`Ignoring ${CONFIG_SECTION}.${CUSTOM_INSTALL_LAYOUT_KEY}.${group}.${field} "${value}": it must be a relative folder without "..".`);
+        return undefined;
+    }
+    return value;
+}
+
+/**
+ * Resolve the install layout chosen in settings. Custom layouts start from the Copilot preset
+ * and override the user root and any group they define; a group set to `null` is not installed.
+ * Group folders that would leave their root are ignored.
+ */
+export function getInstallLayout(): InstallLayout {
+    const configuration = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const preset = configuration.get<InstallLayoutPreset>(INSTALL_LAYOUT_KEY, 'copilot');
+    if (preset !== 'custom') {
+        return INSTALL_LAYOUT_PRESETS[preset] ?? INSTALL_LAYOUT_PRESETS.copilot;
+    }
+
+    const custom = configuration.get<Record<string, unknown>>(CUSTOM_INSTALL_LAYOUT_KEY, {});
+    const base = INSTALL_LAYOUT_PRESETS.copilot;
+    const groups: Record<string, GroupLayout> = { ...base.groups };
+    for (const [key, value] of Object.entries(custom)) {
+        if (key === 'userRoot') {
+            continue;
+        }
+        if (value === null) {
+            delete groups[key];
+            continue;
+        }
+        if (typeof value !== 'object') {
+            continue;
+        }
+
+        const override = value as Partial<GroupLayout>;
+        groups[key] = {
+            workspace: layoutFolderOverride(key, 'workspace', override.workspace) ?? groups[key]?.workspace ?? key,
+            user: layoutFolderOverride(key, 'user', override.user) ?? groups[key]?.user ?? `{marketplace}/{plugin}/${key}`,
+            fileSuffix: typeof override.fileSuffix === 'string' ? override.fileSuffix : groups[key]?.fileSuffix
+        };
+    }
+
+    return {
+        preset: 'custom',
+        userRoot: typeof custom.userRoot === 'string' && custom.userRoot.trim() ? custom.userRoot.trim() : base.userRoot,
+        groups
+    };
+}
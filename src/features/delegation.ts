@@ -2,12 +2,52 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import * as fs from 'node:fs/promises';
 import * as vscode from 'vscode';
-import { MarketplaceGroupItem, MarketplacePlugin } from './marketplace';
+import { MarketplaceGroupItem, MarketplacePlugin, MarketplacePluginGroup, MCP_SERVERS_GROUP_KEY } from './marketplace';
+import { getInstallLayout, type GroupLayout, type InstallLayout } from './config';
+import { recordOperation } from './history';
+import { fetchRepoTree, gitBlobSha, listRepoTreePath } from './git-tree';
+import { openThreeWayMerge, prunePristineCopies, storePristineCopies } from './local-edits';
+import {
+    fillMcpValues,
+    getMcpConfigPath,
+    hasMcpServer,
+    normalizeMcpServer,
+    planMcpServerAction,
+    removeMcpServers,
+    USER_MCP_SERVERS_HANDED_OFF,
+    writeMcpServers,
+    type McpValuePrompt,
+    type PlannedMcpServer,
+    type UserMcpServer
+} from './mcp';
+import { archiveFormatFromUrl, downloadArchive, extractArchive, type ArchiveEntry } from './archive';
 import { fetchWithGitHubAuth } from './github-auth';
+import { fetchLocalFile, getLocalMarketplaceRoot, isFileUrl, listLocalPath, toLocalBaseUrl } from './local-marketplace';
 import { getLogger } from './logger';
+import { checkIntegrity, mapWithConcurrency, sha256Hex } from './utils';
+import { readLockfile, updateLockfile } from './lockfile';
+import { clearItemValidation, validateInstalledItems } from './validation';
+import {
+    conflictResolutionKey,
+    findInstalledPlugin,
+    getConflictResolutions,
+    getInstalledPlugins,
+    installedPluginKey,
+    recordConflictResolutions,
+    recordInstalledPlugins,
+    removeInstalledItems,
+    type ConflictResolution,
+    type InstalledItemRecord,
+    type InstalledPluginRecord
+} from './manifest';
 
 export type InstallScope = 'workspace' | 'user';
 
+export interface PluginItemSelection {
+    group: string;
+    name: string;
+}
+
 export interface InstallPayload {
     version: 'v1';
     operation: 'installOrUpdate';
@@ -20,33 +60,181 @@ export interface InstallPayload {
         version?: string;
         sourceUrl: string;
         downloadUrl?: string;
+        /** Items to install when only part of the plugin was selected; omitted for whole-plugin installs. */
+        items?: PluginItemSelection[];
     }>;
     marketplaceUrls: string[];
 }
 
+export interface SkippedGroup {
+    plugin: string;
+    group: string;
+    itemCount: number;
+    reason: string;
+}
+
 export interface OperationResult {
     success: boolean;
+    /** True when the user backed out, e.g. while deciding about locally modified files. */
+    cancelled?: boolean;
     error?: string;
+    /** Groups that were part of the selection but have no install target. */
+    skippedGroups?: SkippedGroup[];
+    /** Errors and warnings found when validating the installed files; see the Problems panel. */
+    problemCount?: number;
+    /** MCP servers of a user-scope install, left for the user to add to their user MCP configuration. */
+    userMcpServers?: UserMcpServer[];
+    /** Locally modified files an uninstall left in place. */
+    keptFiles?: string[];
 }
 
-interface InstalledPathCollection {
-    skillPaths: string[];
-    agentPaths: string[];
+interface GroupInstallTarget {
+    /** Skills are copied as whole folders; every other group installs as a single markdown file per item. */
+    kind: 'folder' | 'file';
+    /** Workspace setting that tells chat where to find user-scope installs of this group. */
+    chatSetting: string;
+    /** Descriptor files to prefer, in order, when an item's source path is a folder. */
+    preferredFiles?: string[];
 }
 
-interface RepoContext {
+/** How a group installs, combined with where the active install layout puts it. */
+type ResolvedGroupTarget = GroupInstallTarget & GroupLayout;
+
+const GROUP_INSTALL_TARGETS: Record<string, GroupInstallTarget> = {
+    skills: {
+        kind: 'folder',
+        chatSetting: 'chat.agentSkillsLocations'
+    },
+    agents: {
+        kind: 'file',
+        chatSetting: 'chat.agentFilesLocations',
+        preferredFiles: ['AGENT.md', 'AGENTS.md', 'README.md']
+    },
+    prompts: {
+        kind: 'file',
+        chatSetting: 'chat.promptFilesLocations',
+        preferredFiles: ['PROMPT.md', 'README.md']
+    },
+    commands: {
+        kind: 'file',
+        chatSetting: 'chat.promptFilesLocations',
+        preferredFiles: ['COMMAND.md', 'PROMPT.md', 'README.md']
+    },
+    workflows: {
+        kind: 'file',
+        chatSetting: 'chat.promptFilesLocations',
+        preferredFiles: ['WORKFLOW.md', 'PROMPT.md', 'README.md']
+    },
+    hooks: {
+        kind: 'file',
+        chatSetting: 'chat.hookFilesLocations'
+    }
+};
+
+const UNSUPPORTED_GROUP_REASONS: Record<string, string> = {
+    tools: 'Tool definitions have no file-based install target; register them as MCP servers instead.'
+};
+
+const STAGING_FOLDER = 'staging';
+const STAGING_FOLDER_PREFIX = 'agent-plugins-staging-';
+// Staging folders younger than this may belong to an install still running in another window
+const LEFTOVER_STAGING_AGE_MS = 60 * 60 * 1000;
+
+/** Absolute folders written during a user-scope install, keyed by the chat setting that should list them. */
+type InstalledPathCollection = Record<string, string[]>;
+
+export type PlannedFileAction = 'create' | 'overwrite' | 'unchanged';
+
+export interface PlannedFile {
+    targetPath: string;
+    /** URL the content was fetched from; undefined when generated from the item description. */
+    sourceUrl?: string;
+    size: number;
+    action: PlannedFileAction;
+    content: Buffer;
+    /** True when the content matched an integrity digest declared by the marketplace. */
+    verified?: boolean;
+    /** True when the file on disk was edited after it was installed. */
+    locallyModified?: boolean;
+    /** SHA-256 (hex) recorded for the file when it was installed. */
+    installedHash?: string;
+    /** How a locally modified file that the update changes was resolved. */
+    localEdit?: LocalEditResolution;
+}
+
+/** Keep the local file, take the incoming version, or keep the local file and merge the update into it. */
+export type LocalEditResolution = 'keep' | 'take' | 'merge';
+
+export interface LocalEdit {
+    plugin: string;
+    group: string;
+    item: string;
+    file: PlannedFile;
+}
+
+export interface PlannedItem {
+    group: string;
+    name: string;
+    path: string;
+    sourcePath?: string;
+    files: PlannedFile[];
+    /** Files an earlier install of the item wrote that this version no longer ships. */
+    staleFiles?: StaleFile[];
+}
+
+export interface StaleFile {
+    targetPath: string;
+    /** SHA-256 (hex) recorded for the file when it was installed. */
+    installedHash?: string;
+    /** True when the file was edited after it was installed; such files are kept rather than deleted. */
+    locallyModified: boolean;
+}
+
+export interface PlannedPlugin {
+    plugin: MarketplacePlugin;
+    branch?: string;
+    commit?: string;
+    partial: boolean;
+    items: PlannedItem[];
+    mcpServers: PlannedMcpServer[];
+}
+
+/**
+ * Everything an install will write, fetched up front so it can be previewed and then applied without refetching.
+ */
+export interface InstallPlan {
+    payload: InstallPayload;
+    plugins: PlannedPlugin[];
+    skippedGroups: SkippedGroup[];
+    /** User-scope group roots to register in the chat location settings. */
+    chatLocations: InstalledPathCollection;
+    conflictResolutions: Map<string, ConflictResolution>;
+    /** Install layout the target paths were computed from. */
+    layout: InstallLayout;
+    /** MCP servers of a user-scope install, which are handed to VS Code rather than written. */
+    userMcpServers: UserMcpServer[];
+}
+
+export interface RepoContext {
     owner: string;
     repo: string;
     branch: string;
     rawBaseUrl: string;
+    /** Folder of a marketplace on disk, read directly instead of through GitHub. */
+    localRoot?: string;
 }
 
 interface GitHubContentEntry {
     type?: string;
     name?: string;
     path?: string;
+    /** Git blob SHA of a file. */
+    sha?: string;
 }
 
+/** Parallel raw downloads per listed folder; raw.githubusercontent.com is not subject to the REST API rate limit. */
+const DOWNLOAD_CONCURRENCY = 6;
+
 function sanitizePathSegment(value: string): string {
     const sanitized = value
         .toLowerCase()
@@ -99,7 +287,18 @@ function encodePath(value: string): string {
         .join('/');
 }
 
-function getRepoContext(plugin: MarketplacePlugin): RepoContext | undefined {
+export function getRepoContext(plugin: MarketplacePlugin): RepoContext | undefined {
+    if (plugin.sourceRepo) {
+        const { owner, repo } = plugin.sourceRepo;
+        const branch = plugin.sourceRepo.ref ?? 'HEAD';
+        return { owner, repo, branch, rawBaseUrl: `https://raw.githubusercontent.com/${owner}/${repo}/${branch}` };
+    }
+
+    const localRoot = getLocalMarketplaceRoot(plugin.marketplaceDocumentUrl);
+    if (localRoot) {
+        return { owner: '', repo: path.basename(localRoot), branch: '', rawBaseUrl: toLocalBaseUrl(localRoot), localRoot };
+    }
+
     const match = /^https:\/\/raw\.githubusercontent\.com\/([^/]+)\/([^/]+)\/([^/]+)\//i.exec(
         plugin.marketplaceDocumentUrl
     );
@@ -109,7 +308,10 @@ function getRepoContext(plugin: MarketplacePlugin): RepoContext | undefined {
 
     const owner = match[1];
     const repo = match[2];
-    const branch = match[3];
+    // Refs such as `release/v1` span several URL segments; the plugin records the full ref it was read from
+    const branch = plugin.branch && plugin.marketplaceDocumentUrl.startsWith(`https://raw.githubusercontent.com/${owner}/${repo}/${plugin.branch}/`)
+        ? plugin.branch
+        : match[3];
     return {
         owner,
         repo,
@@ -118,7 +320,20 @@ function getRepoContext(plugin: MarketplacePlugin): RepoContext | undefined {
     };
 }
 
+/**
+ * List a repository path like the GitHub contents API. The listing comes from the revision's tree, fetched once
+ * with the Git Trees API; only when that is unavailable does each path cost a contents API call.
+ */
 async function fetchGitHubPathContents(repoContext: RepoContext, relativePath: string): Promise<unknown | undefined> {
+    if (repoContext.localRoot) {
+        return listLocalPath(repoContext.localRoot, relativePath);
+    }
+
+    const tree = await fetchRepoTree(repoContext.owner, repoContext.repo, repoContext.branch);
+    if (tree) {
+        return listRepoTreePath(tree, normalizeRelativePath(relativePath));
+    }
+
     const encoded = encodePath(relativePath);
     const url = `https://api.github.com/repos/${repoContext.owner}/${repoContext.repo}/contents/${encoded}?ref=${encodeURIComponent(repoContext.branch)}`;
 
@@ -141,27 +356,61 @@ async function fetchGitHubPathContents(repoContext: RepoContext, relativePath: s
     }
 }
 
-async function downloadRawFile(rawUrl: string, targetPath: string, logger?: { warn: (msg: string) => void }): Promise<boolean> {
+/**
+ * Resolve the commit SHA a branch (or tag) currently points to.
+ */
+export async function resolveCommitSha(repoContext: RepoContext): Promise<string | undefined> {
+    if (repoContext.localRoot) {
+        return undefined;
+    }
+
+    const url = `https://api.github.com/repos/${repoContext.owner}/${repoContext.repo}/commits/${encodeURIComponent(repoContext.branch)}`;
+
     try {
-        const response = await fetchWithGitHubAuth(rawUrl);
+        const response = await fetchWithGitHubAuth(url, {
+            headers: {
+                'User-Agent': 'vscode-agent-plugins',
+                'Accept': 'application/vnd.github.sha'
+            }
+        });
         if (!response.ok) {
-            logger?.warn(`Failed to download ${rawUrl}: ${response.status} ${response.statusText}`);
-            return false;
+            getLogger()?.trace(`GitHub API returned ${response.status} ${response.statusText} for ${url}`);
+            return undefined;
         }
 
-        const bytes = Buffer.from(await response.arrayBuffer());
-        await fs.mkdir(path.dirname(targetPath), { recursive: true });
-        await fs.writeFile(targetPath, bytes);
-        return true;
+        const sha = (await response.text()).trim();
+        return /^[0-9a-f]{40}$/i.test(sha) ? sha : undefined;
     } catch (error) {
-        logger?.warn(`Failed to download ${rawUrl}: ${error instanceof Error ? error.message : String(error)}`);
-        return false;
+        getLogger()?.trace(`Failed to resolve commit for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+    }
+}
+
+/**
+ * Fetch a file of a marketplace: from disk for `file://` URLs of local marketplaces, otherwise over HTTP
+ * with GitHub authentication when signed in.
+ */
+function fetchSourceFile(url: string): Promise<Response> {
+    return isFileUrl(url) ? fetchLocalFile(url) : fetchWithGitHubAuth(url);
+}
+
+async function fetchRawBytes(rawUrl: string): Promise<Buffer | undefined> {
+    try {
+        const response = await fetchSourceFile(rawUrl);
+        if (!response.ok) {
+            getLogger()?.trace(`Fetch returned ${response.status} ${response.statusText} for ${rawUrl}`);
+            return undefined;
+        }
+        return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+        getLogger()?.trace(`Failed to download ${rawUrl}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
     }
 }
 
 async function fetchRawText(rawUrl: string): Promise<string | undefined> {
     try {
-        const response = await fetchWithGitHubAuth(rawUrl);
+        const response = await fetchSourceFile(rawUrl);
         if (!response.ok) {
             getLogger()?.trace(`Fetch returned ${response.status} ${response.statusText} for ${rawUrl}`);
             return undefined;
@@ -173,111 +422,170 @@ async function fetchRawText(rawUrl: string): Promise<string | undefined> {
     }
 }
 
-async function copyGithubEntryTree(repoContext: RepoContext, sourcePath: string, targetPath: string): Promise<boolean> {
-    const contents = await fetchGitHubPathContents(repoContext, sourcePath);
-    if (!contents) {
-        return false;
+/**
+ * Describe what writing `content` to `targetPath` would do, comparing against the file already on disk.
+ */
+async function planFile(targetPath: string, content: Buffer, sourceUrl?: string): Promise<PlannedFile> {
+    let action: PlannedFileAction = 'create';
+    try {
+        action = (await fs.readFile(targetPath)).equals(content) ? 'unchanged' : 'overwrite';
+    } catch {
+        action = 'create';
     }
 
-    if (Array.isArray(contents)) {
-        let copied = false;
-        for (const entry of contents) {
-            const record = entry as GitHubContentEntry;
-            if (!record.type || !record.path || !record.name) {
-                continue;
-            }
+    return { targetPath, sourceUrl, size: content.length, action, content };
+}
 
-            if (record.type === 'dir') {
-                const childCopied = await copyGithubEntryTree(repoContext, record.path, path.join(targetPath, record.name));
-                copied = copied || childCopied;
-                continue;
+async function planRawFile(rawUrl: string, targetPath: string): Promise<PlannedFile | undefined> {
+    const content = await fetchRawBytes(rawUrl);
+    return content ? planFile(targetPath, content, rawUrl) : undefined;
+}
+
+/**
+ * Plan a repository file, reusing the copy on disk when its Git blob SHA shows it is already up to date.
+ */
+async function planRepoFile(rawUrl: string, targetPath: string, blobSha?: string): Promise<PlannedFile | undefined> {
+    if (blobSha) {
+        try {
+            const existing = await fs.readFile(targetPath);
+            if (gitBlobSha(existing) === blobSha) {
+                return { targetPath, sourceUrl: rawUrl, size: existing.length, action: 'unchanged', content: existing };
             }
+        } catch {
+            // Not on disk yet
+        }
+    }
+    return planRawFile(rawUrl, targetPath);
+}
+
+/**
+ * Collect the files below an already fetched folder listing, fetching only the listings of its subfolders.
+ */
+async function listGithubEntryFiles(
+    repoContext: RepoContext,
+    contents: GitHubContentEntry[],
+    targetPath: string
+): Promise<Array<{ entry: GitHubContentEntry; targetPath: string }>> {
+    const files: Array<{ entry: GitHubContentEntry; targetPath: string }> = [];
+    for (const entry of contents) {
+        if (!entry.type || !entry.path || !entry.name) {
+            continue;
+        }
 
-            if (record.type === 'file') {
-                const rawUrl = `${repoContext.rawBaseUrl}/${record.path}`;
-                const fileCopied = await downloadRawFile(rawUrl, path.join(targetPath, record.name));
-                copied = copied || fileCopied;
+        if (entry.type === 'dir') {
+            const children = await fetchGitHubPathContents(repoContext, entry.path);
+            if (Array.isArray(children)) {
+                files.push(...await listGithubEntryFiles(repoContext, children as GitHubContentEntry[], path.join(targetPath, entry.name)));
             }
+        } else if (entry.type === 'file') {
+            files.push({ entry, targetPath: path.join(targetPath, entry.name) });
         }
-        return copied;
     }
+    return files;
+}
 
-    const record = contents as GitHubContentEntry;
-    if (record.type === 'file' && record.path) {
-        const rawUrl = `${repoContext.rawBaseUrl}/${record.path}`;
-        const fileName = path.basename(record.path);
-        return downloadRawFile(rawUrl, path.join(targetPath, fileName));
+async function planGithubEntryTree(repoContext: RepoContext, sourcePath: string, targetPath: string): Promise<PlannedFile[]> {
+    const contents = await fetchGitHubPathContents(repoContext, sourcePath);
+    if (!contents) {
+        return [];
     }
 
-    if (record.type === 'dir' && record.path) {
-        return copyGithubEntryTree(repoContext, record.path, targetPath);
+    if (!Array.isArray(contents)) {
+        const record = contents as GitHubContentEntry;
+        if (record.type === 'file' && record.path) {
+            const file = await planRepoFile(`${repoContext.rawBaseUrl}/${record.path}`, path.join(targetPath, path.basename(record.path)), record.sha);
+            return file ? [file] : [];
+        }
+        return record.type === 'dir' && record.path ? planGithubEntryTree(repoContext, record.path, targetPath) : [];
     }
 
-    return false;
+    const listed = await listGithubEntryFiles(repoContext, contents as GitHubContentEntry[], targetPath);
+    return mapWithConcurrency(listed, DOWNLOAD_CONCURRENCY, async ({ entry, targetPath: fileTarget }) => {
+        const rawUrl = `${repoContext.rawBaseUrl}/${entry.path}`;
+        const file = await planRepoFile(rawUrl, fileTarget, entry.sha);
+        if (!file) {
+            // A listed file that cannot be fetched would leave the item incomplete, so abort the whole install
+            throw new Error(`Failed to download ${rawUrl}`);
+        }
+        return file;
+    });
 }
 
-async function fallbackDownloadItemDescriptor(item: MarketplaceGroupItem, targetPath: string): Promise<boolean> {
+async function planFallbackItemDescriptor(item: MarketplaceGroupItem, targetPath: string): Promise<PlannedFile | undefined> {
     const candidates = [item.metadataUrl, ...item.metadataFallbackUrls].filter((entry): entry is string => Boolean(entry));
     for (const candidate of candidates) {
         const fileName = path.basename(new URL(candidate).pathname) || 'descriptor.md';
-        if (await downloadRawFile(candidate, path.join(targetPath, fileName))) {
-            return true;
+        const file = await planRawFile(candidate, path.join(targetPath, fileName));
+        if (file) {
+            return file;
         }
     }
 
-    return false;
+    return undefined;
 }
 
-async function installSkillItem(plugin: MarketplacePlugin, item: MarketplaceGroupItem, skillsRoot: string): Promise<void> {
-    const skillFolder = path.join(skillsRoot, sanitizePathSegment(item.name));
-    await fs.mkdir(skillFolder, { recursive: true });
-
+async function planSkillItem(
+    plugin: MarketplacePlugin,
+    item: MarketplaceGroupItem,
+    skillFolder: string
+): Promise<PlannedItem | undefined> {
     const repoContext = getRepoContext(plugin);
     const sourcePath = item.path ? normalizeRelativePath(item.path) : undefined;
+    const toPlannedItem = (files: PlannedFile[]): PlannedItem | undefined =>
+        files.length > 0 ? { group: 'skills', name: item.name, path: skillFolder, sourcePath, files } : undefined;
+
     if (repoContext && sourcePath) {
-        const copied = await copyGithubEntryTree(repoContext, sourcePath, skillFolder);
-        if (copied) {
-            return;
+        const planned = await planGithubEntryTree(repoContext, sourcePath, skillFolder);
+        if (planned.length > 0) {
+            return toPlannedItem(planned);
         }
     }
 
-    await fallbackDownloadItemDescriptor(item, skillFolder);
+    const descriptor = await planFallbackItemDescriptor(item, skillFolder);
+    return toPlannedItem(descriptor ? [descriptor] : []);
 }
 
-async function getAgentText(plugin: MarketplacePlugin, item: MarketplaceGroupItem): Promise<string | undefined> {
+async function getItemText(
+    plugin: MarketplacePlugin,
+    item: MarketplaceGroupItem,
+    preferredFiles: string[]
+): Promise<{ text: string; sourceUrl?: string } | undefined> {
     const repoContext = getRepoContext(plugin);
     const sourcePath = item.path ? normalizeRelativePath(item.path) : undefined;
+    const fetchText = async (url: string): Promise<{ text: string; sourceUrl: string } | undefined> => {
+        const text = await fetchRawText(url);
+        return text ? { text, sourceUrl: url } : undefined;
+    };
 
     if (repoContext && sourcePath) {
         const contents = await fetchGitHubPathContents(repoContext, sourcePath);
         if (contents && !Array.isArray(contents)) {
             const record = contents as GitHubContentEntry;
             if (record.type === 'file' && record.path) {
-                const text = await fetchRawText(`${repoContext.rawBaseUrl}/${record.path}`);
-                if (text) {
-                    return text;
+                const fetched = await fetchText(`${repoContext.rawBaseUrl}/${record.path}`);
+                if (fetched) {
+                    return fetched;
                 }
             }
         }
 
         if (Array.isArray(contents)) {
             const entries = contents as GitHubContentEntry[];
-            const preferred = ['AGENT.md', 'AGENTS.md', 'README.md'];
-            for (const fileName of preferred) {
+            for (const fileName of preferredFiles) {
                 const match = entries.find((entry) => entry.type === 'file' && entry.name?.toLowerCase() === fileName.toLowerCase());
                 if (match?.path) {
-                    const text = await fetchRawText(`${repoContext.rawBaseUrl}/${match.path}`);
-                    if (text) {
-                        return text;
+                    const fetched = await fetchText(`${repoContext.rawBaseUrl}/${match.path}`);
+                    if (fetched) {
+                        return fetched;
                     }
                 }
             }
 
             const anyMarkdown = entries.find((entry) => entry.type === 'file' && entry.path && /\.md$/i.test(entry.path));
             if (anyMarkdown?.path) {
-                const text = await fetchRawText(`${repoContext.rawBaseUrl}/${anyMarkdown.path}`);
-                if (text) {
-                    return text;
+                const fetched = await fetchText(`${repoContext.rawBaseUrl}/${anyMarkdown.path}`);
+                if (fetched) {
+                    return fetched;
                 }
             }
         }
@@ -285,95 +593,434 @@ async function getAgentText(plugin: MarketplacePlugin, item: MarketplaceGroupIte
 
     const descriptorCandidates = [item.metadataUrl, ...item.metadataFallbackUrls].filter((entry): entry is string => Boolean(entry));
     for (const candidate of descriptorCandidates) {
-        const text = await fetchRawText(candidate);
-        if (text) {
-            return text;
+        const fetched = await fetchText(candidate);
+        if (fetched) {
+            return fetched;
         }
     }
 
     if (item.description) {
-        return `# ${item.name}\n\n${item.description}\n`;
+        return { text: `# ${item.name}\n\n${item.description}\n` };
     }
 
     return undefined;
 }
 
-async function installAgentItem(plugin: MarketplacePlugin, item: MarketplaceGroupItem, agentsRoot: string): Promise<void> {
-    await fs.mkdir(agentsRoot, { recursive: true });
-    const fileBase = sanitizePathSegment(item.name.replace(/\.agent\.md$/i, '').replace(/\.md$/i, ''));
-    const filePath = path.join(agentsRoot, `${fileBase}.agent.md`);
+function stripMarkdownSuffix(name: string): string {
+    return name.replace(/\.(agent|prompt|chatmode|instructions)\.md$/i, '').replace(/\.md$/i, '');
+}
 
-    const content = await getAgentText(plugin, item);
-    if (!content) {
-        return;
+async function planFileItem(
+    plugin: MarketplacePlugin,
+    item: MarketplaceGroupItem,
+    groupKey: string,
+    target: ResolvedGroupTarget,
+    filePath: string
+): Promise<PlannedItem | undefined> {
+    const fetched = await getItemText(plugin, item, target.preferredFiles ?? ['README.md']);
+    if (!fetched) {
+        return undefined;
     }
 
-    await fs.writeFile(filePath, content, 'utf8');
+    return {
+        group: groupKey,
+        name: item.name,
+        path: filePath,
+        sourcePath: item.path ? normalizeRelativePath(item.path) : undefined,
+        files: [await planFile(filePath, Buffer.from(fetched.text, 'utf8'), fetched.sourceUrl)]
+    };
 }
 
-async function materializeLocalInstallStructure(workspaceRoot: string, plugins: MarketplacePlugin[]): Promise<void> {
-    const skillsRoot = path.join(workspaceRoot, '.agents', 'skills');
-    const agentsRoot = path.join(workspaceRoot, '.github', 'agents');
+/**
+ * Plan a hook event as a hook file of its own, in the `{ "hooks": { "<event>": [...] } }` form chat reads.
+ */
+async function planHookItem(item: MarketplaceGroupItem, groupKey: string, filePath: string): Promise<PlannedItem | undefined> {
+    if (!item.hook) {
+        return undefined;
+    }
 
-    const installPromises: Promise<void>[] = [];
+    const text = `${JSON.stringify({ hooks: { [item.hook.event]: item.hook.matchers } }, undefined, 2)}\n`;
+    if (text.includes('${CLAUDE_PLUGIN_ROOT}')) {
+        getLogger()?.warn(`Hook '${item.name}' refers to \${CLAUDE_PLUGIN_ROOT}, which is not set outside Claude; its commands may fail.`);
+    }
+    return {
+        group: groupKey,
+        name: item.name,
+        path: filePath,
+        files: [await planFile(filePath, Buffer.from(text, 'utf8'), item.hook.sourceUrl)]
+    };
+}
 
-    for (const plugin of plugins) {
-        for (const group of plugin.groups) {
-            if (group.key === 'skills') {
-                for (const item of group.items) {
-                    installPromises.push(installSkillItem(plugin, item, skillsRoot));
-                }
+interface PluginArchive {
+    url: string;
+    entries: ArchiveEntry[];
+}
+
+async function loadPluginArchive(plugin: MarketplacePlugin): Promise<PluginArchive | undefined> {
+    if (!plugin.downloadUrl) {
+        return undefined;
+    }
+    if (!archiveFormatFromUrl(plugin.downloadUrl)) {
+        getLogger()?.info(`Not using ${plugin.downloadUrl} of plugin '${plugin.name}': it is not a .zip or .tar.gz archive; installing from the marketplace files instead.`);
+        return undefined;
+    }
+
+    getLogger()?.info(`Downloading archive for plugin '${plugin.name}' from ${plugin.downloadUrl}`);
+    const bytes = await downloadArchive(plugin.downloadUrl);
+    if (plugin.integrity) {
+        assertIntegrity(plugin, plugin.downloadUrl, bytes, plugin.integrity);
+        getLogger()?.info(`Verified archive integrity for plugin '${plugin.name}'.`);
+    }
+    const entries = extractArchive(bytes);
+    getLogger()?.trace(`Extracted ${entries.length} file(s) from ${plugin.downloadUrl}`);
+    return { url: plugin.downloadUrl, entries };
+}
+
+/**
+ * Build groups from the conventional `skills/<name>/` folders and `<group>/<name>.md` files of an archive,
+ * for plugins whose marketplace entry lists no items of its own.
+ */
+function discoverArchiveGroups(entries: ArchiveEntry[]): MarketplacePluginGroup[] {
+    const groupNames: Record<string, string> = {
+        skills: 'Skills',
+        agents: 'Agents',
+        commands: 'Commands',
+        prompts: 'Prompts',
+        workflows: 'Workflows'
+    };
+
+    const groups: MarketplacePluginGroup[] = [];
+    for (const [key, name] of Object.entries(groupNames)) {
+        const itemPaths = new Set<string>();
+        for (const entry of entries) {
+            const segments = entry.path.split('/');
+            if (segments[0] !== key || segments.length < 2) {
+                continue;
+            }
+            if (GROUP_INSTALL_TARGETS[key].kind === 'folder' && segments.length > 2) {
+                itemPaths.add(`${key}/${segments[1]}`);
+            } else if (GROUP_INSTALL_TARGETS[key].kind === 'file' && segments.length === 2 && /\.md$/i.test(segments[1])) {
+                itemPaths.add(entry.path);
             }
+        }
 
-            if (group.key === 'agents') {
-                for (const item of group.items) {
-                    installPromises.push(installAgentItem(plugin, item, agentsRoot));
-                }
+        if (itemPaths.size > 0) {
+            groups.push({
+                name,
+                key,
+                items: Array.from(itemPaths).sort().map((itemPath) => ({
+                    name: stripMarkdownSuffix(path.posix.basename(itemPath)),
+                    path: itemPath,
+                    metadataFallbackUrls: []
+                }))
+            });
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Paths an item may live at inside a plugin archive: its marketplace path, that path relative to the
+ * plugin's `source` folder (archives usually contain just the plugin), or the conventional `<group>/<name>`.
+ */
+function archiveItemCandidates(plugin: MarketplacePlugin, item: MarketplaceGroupItem, groupKey: string): string[] {
+    const candidates: string[] = [];
+    const sourcePath = item.path && !/^https?:\/\//i.test(item.path) ? normalizeRelativePath(item.path) : undefined;
+    if (sourcePath) {
+        candidates.push(sourcePath);
+        const sourceBase = typeof plugin.raw.source === 'string' ? normalizeRelativePath(plugin.raw.source) : '';
+        if (sourceBase && sourcePath.startsWith(`${sourceBase}/`)) {
+            candidates.push(sourcePath.slice(sourceBase.length + 1));
+        }
+    }
+    candidates.push(`${groupKey}/${item.name}`);
+    return candidates;
+}
+
+async function planArchiveItem(
+    archive: PluginArchive,
+    plugin: MarketplacePlugin,
+    item: MarketplaceGroupItem,
+    groupKey: string,
+    target: ResolvedGroupTarget,
+    itemPath: string
+): Promise<PlannedItem | undefined> {
+    const toSourceUrl = (entry: ArchiveEntry): string => `${archive.url}#${entry.path}`;
+    const toPlannedItem = (files: PlannedFile[]): PlannedItem => ({
+        group: groupKey,
+        name: item.name,
+        path: itemPath,
+        sourcePath: item.path ? normalizeRelativePath(item.path) : undefined,
+        files
+    });
+
+    for (const candidate of archiveItemCandidates(plugin, item, groupKey)) {
+        const exact = archive.entries.find((entry) => entry.path === candidate);
+        const nested = archive.entries.filter((entry) => entry.path.startsWith(`${candidate}/`));
+
+        if (target.kind === 'folder') {
+            if (nested.length > 0) {
+                return toPlannedItem(await Promise.all(nested.map((entry) => planFile(
+                    path.join(itemPath, ...entry.path.slice(candidate.length + 1).split('/')),
+                    entry.content,
+                    toSourceUrl(entry)
+                ))));
+            }
+            if (exact) {
+                return toPlannedItem([await planFile(path.join(itemPath, path.posix.basename(exact.path)), exact.content, toSourceUrl(exact))]);
             }
+            continue;
+        }
+
+        const children = nested.filter((entry) => !entry.path.slice(candidate.length + 1).includes('/'));
+        const preferred = (target.preferredFiles ?? ['README.md'])
+            .map((fileName) => children.find((entry) => path.posix.basename(entry.path).toLowerCase() === fileName.toLowerCase()))
+            .find((entry): entry is ArchiveEntry => Boolean(entry));
+        const source = exact ?? preferred ?? children.find((entry) => /\.md$/i.test(entry.path));
+        if (source) {
+            return toPlannedItem([await planFile(itemPath, source.content, toSourceUrl(source))]);
         }
     }
 
-    await Promise.all(installPromises);
+    return undefined;
 }
 
-async function materializeUserInstallStructure(userRoot: string, plugins: MarketplacePlugin[]): Promise<InstalledPathCollection> {
-    const skillPaths = new Set<string>();
-    const agentPaths = new Set<string>();
+/**
+ * Path of a planned file inside the marketplace repository or plugin archive, used to look up file-level digests.
+ */
+function plannedFileSourcePath(plugin: MarketplacePlugin, file: PlannedFile): string | undefined {
+    if (!file.sourceUrl) {
+        return undefined;
+    }
 
-    const installPromises: Promise<void>[] = [];
+    if (plugin.downloadUrl && file.sourceUrl.startsWith(`${plugin.downloadUrl}#`)) {
+        return file.sourceUrl.slice(plugin.downloadUrl.length + 1);
+    }
 
-    for (const plugin of plugins) {
-        const pluginRoot = path.join(userRoot, getMarketplaceName(plugin.sourceUrl), getPluginName(plugin));
-        const skillsRoot = path.join(pluginRoot, 'skills');
-        const agentsRoot = path.join(pluginRoot, 'agents');
+    const repoContext = getRepoContext(plugin);
+    return repoContext && file.sourceUrl.startsWith(`${repoContext.rawBaseUrl}/`)
+        ? file.sourceUrl.slice(repoContext.rawBaseUrl.length + 1)
+        : undefined;
+}
 
-        for (const group of plugin.groups) {
-            if (group.key === 'skills') {
+function assertIntegrity(plugin: MarketplacePlugin, subject: string, content: Buffer, integrity: string): void {
+    const { valid, actual } = checkIntegrity(content, integrity);
+    if (!valid) {
+        throw new Error(
+            `Integrity check failed for ${subject} of plugin '${plugin.name}': expected ${integrity} but downloaded content is ${actual}. Nothing was installed.`
+        );
+    }
+}
+
+/**
+ * Verify a planned item against the digests its marketplace entry declares, either per repository file on the
+ * plugin or on the item itself. Throws on any mismatch so the install is refused before anything is written.
+ */
+function verifyPlannedItemIntegrity(plugin: MarketplacePlugin, item: MarketplaceGroupItem, planned: PlannedItem): void {
+    const expectations: Array<{ file: PlannedFile; integrity: string }> = [];
+    for (const file of planned.files) {
+        const sourcePath = plannedFileSourcePath(plugin, file);
+        const declared = sourcePath ? plugin.fileIntegrity?.[sourcePath] : undefined;
+        if (declared) {
+            expectations.push({ file, integrity: declared });
+        }
+    }
+
+    if (typeof item.integrity === 'string') {
+        if (planned.files.length !== 1) {
+            throw new Error(
+                `Item '${item.name}' of plugin '${plugin.name}' declares one integrity value but installs ${planned.files.length} files; declare a digest per file instead.`
+            );
+        }
+        expectations.push({ file: planned.files[0], integrity: item.integrity });
+    } else if (item.integrity) {
+        for (const [relativePath, integrity] of Object.entries(item.integrity)) {
+            const file = planned.files.find((entry) =>
+                path.relative(planned.path, entry.targetPath).replace(/\\/g, '/') === relativePath
+                || plannedFileSourcePath(plugin, entry)?.endsWith(`/${relativePath}`)
+            );
+            if (!file) {
+                throw new Error(
+                    `Item '${item.name}' of plugin '${plugin.name}' declares integrity for '${relativePath}', which was not downloaded. Nothing was installed.`
+                );
+            }
+            expectations.push({ file, integrity });
+        }
+    }
+
+    for (const { file, integrity } of expectations) {
+        assertIntegrity(plugin, file.sourceUrl ?? file.targetPath, file.content, integrity);
+        file.verified = true;
+    }
+}
+
+/**
+ * Folder or file an item installs to below its group root. Namespaced installs prefix the plugin name
+ * so that same-named items from different plugins can live side by side.
+ */
+function itemTargetPath(
+    plugin: MarketplacePlugin,
+    item: MarketplaceGroupItem,
+    target: ResolvedGroupTarget,
+    groupRoot: string,
+    resolution?: ConflictResolution
+): string {
+    const prefix = resolution === 'namespace' ? `${getPluginName(plugin)}-` : '';
+    return target.kind === 'folder'
+        ? path.join(groupRoot, `${prefix}${sanitizePathSegment(item.name)}`)
+        : path.join(groupRoot, `${prefix}${sanitizePathSegment(stripMarkdownSuffix(item.name))}${target.fileSuffix ?? '.md'}`);
+}
+
+/**
+ * Key an MCP server is written under in the MCP configuration file, namespaced like files when asked to.
+ */
+function mcpServerKey(plugin: MarketplacePlugin, item: MarketplaceGroupItem, resolution?: ConflictResolution): string {
+    return resolution === 'namespace' ? `${getPluginName(plugin)}-${item.name}` : item.name;
+}
+
+function resolveGroupTarget(layout: InstallLayout, groupKey: string): ResolvedGroupTarget | undefined {
+    const target = GROUP_INSTALL_TARGETS[groupKey];
+    const groupLayout = layout.groups[groupKey];
+    return target && groupLayout ? { ...target, ...groupLayout } : undefined;
+}
+
+function skippedGroupReason(layout: InstallLayout, groupKey: string): string {
+    if (GROUP_INSTALL_TARGETS[groupKey]) {
+        return `The ${layout.preset} install layout defines no folder for this group.`;
+    }
+    return UNSUPPORTED_GROUP_REASONS[groupKey] ?? 'No install target is defined for this group.';
+}
+
+function createGroupRootResolver(
+    scope: InstallScope,
+    targetPath: string,
+    plugin: MarketplacePlugin
+): (target: ResolvedGroupTarget) => string {
+    // Every group root must stay inside the install root, whatever the layout settings say
+    const contained = (folder: string): string => {
+        const resolved = path.resolve(targetPath, ...folder.split('/'));
+        const relative = path.relative(targetPath, resolved);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            throw new Error(`Install layout folder '${folder}' resolves outside the install root ${targetPath}.`);
+        }
+        return resolved;
+    };
+    if (scope === 'workspace') {
+        return (target) => contained(target.workspace);
+    }
+
+    const marketplaceName = getMarketplaceName(plugin.sourceUrl);
+    const pluginName = getPluginName(plugin);
+    return (target) => contained(target.user
+        .replace(/\{marketplace\}/g, marketplaceName)
+        .replace(/\{plugin\}/g, pluginName));
+}
+
+/**
+ * Plan every supported group of a plugin into the roots for the install scope,
+ * reporting the groups that have no install target instead of dropping them silently.
+ */
+async function planPluginGroups(
+    plugin: MarketplacePlugin,
+    payload: InstallPayload,
+    layout: InstallLayout,
+    resolutions: Record<string, ConflictResolution>,
+    chatLocations: InstalledPathCollection,
+    mcpConfigPath: string | undefined
+): Promise<{ items: PlannedItem[]; mcpServers: PlannedMcpServer[]; userMcpServers: UserMcpServer[]; skipped: SkippedGroup[] }> {
+    const resolveRoot = createGroupRootResolver(payload.scope, payload.targetPath, plugin);
+    const archive = await loadPluginArchive(plugin);
+    if (plugin.integrity && !archive) {
+        throw new Error(
+            `Plugin '${plugin.name}' declares an archive integrity of ${plugin.integrity} but has no .zip or .tar.gz downloadUrl to verify it against. Nothing was installed.`
+        );
+    }
+    const groups = archive && plugin.groups.length === 0 ? discoverArchiveGroups(archive.entries) : plugin.groups;
+    const pending: Promise<PlannedItem | undefined>[] = [];
+    const pendingServers: Promise<PlannedMcpServer>[] = [];
+    const userMcpServers: UserMcpServer[] = [];
+    const skipped: SkippedGroup[] = [];
+
+    for (const group of groups) {
+        if (group.items.length === 0) {
+            continue;
+        }
+
+        if (group.key === MCP_SERVERS_GROUP_KEY) {
+            if (!mcpConfigPath) {
                 for (const item of group.items) {
-                    installPromises.push(installSkillItem(plugin, item, skillsRoot));
+                    if (item.mcpServer) {
+                        userMcpServers.push({ name: item.name, key: item.name, ...normalizeMcpServer(item.name, item.mcpServer) });
+                    }
                 }
-                if (group.items.length > 0) {
-                    skillPaths.add(skillsRoot);
+                skipped.push({ plugin: plugin.name, group: group.name, itemCount: group.items.length, reason: USER_MCP_SERVERS_HANDED_OFF });
+                continue;
+            }
+            for (const item of group.items) {
+                const resolution = resolutions[conflictResolutionKey(plugin.id, plugin.sourceUrl, group.key, item.name)];
+                if (!item.mcpServer || resolution === 'skip') {
+                    continue;
                 }
+
+                const server = {
+                    name: item.name,
+                    key: mcpServerKey(plugin, item, resolution),
+                    configPath: mcpConfigPath,
+                    ...normalizeMcpServer(item.name, item.mcpServer)
+                };
+                pendingServers.push(planMcpServerAction(server).then((action) => ({ ...server, action })));
             }
+            continue;
+        }
 
-            if (group.key === 'agents') {
-                for (const item of group.items) {
-                    installPromises.push(installAgentItem(plugin, item, agentsRoot));
-                }
-                if (group.items.length > 0) {
-                    agentPaths.add(agentsRoot);
+        const target = resolveGroupTarget(layout, group.key);
+        if (!target) {
+            skipped.push({
+                plugin: plugin.name,
+                group: group.name,
+                itemCount: group.items.length,
+                reason: skippedGroupReason(layout, group.key)
+            });
+            continue;
+        }
+
+        const targetRoot = resolveRoot(target);
+        for (const item of group.items) {
+            const resolution = resolutions[conflictResolutionKey(plugin.id, plugin.sourceUrl, group.key, item.name)];
+            if (resolution === 'skip') {
+                getLogger()?.info(`Skipping ${group.key} item '${item.name}' of plugin '${plugin.name}' to keep the existing install.`);
+                continue;
+            }
+
+            const itemPath = itemTargetPath(plugin, item, target, targetRoot, resolution);
+            const planFromMarketplace = (): Promise<PlannedItem | undefined> => item.hook
+                ? planHookItem(item, group.key, itemPath)
+                : target.kind === 'folder'
+                    ? planSkillItem(plugin, item, itemPath)
+                    : planFileItem(plugin, item, group.key, target, itemPath);
+            const planning = archive && !item.hook
+                ? planArchiveItem(archive, plugin, item, group.key, target, itemPath).then((planned) => planned ?? planFromMarketplace())
+                : planFromMarketplace();
+            pending.push(planning.then((planned) => {
+                if (planned) {
+                    verifyPlannedItemIntegrity(plugin, item, planned);
                 }
+                return planned;
+            }));
+        }
+
+        // Only user-scope roots need registering; workspace roots are chat's default locations
+        if (payload.scope === 'user') {
+            const settingPaths = chatLocations[target.chatSetting] ??= [];
+            if (!settingPaths.includes(targetRoot)) {
+                settingPaths.push(targetRoot);
             }
         }
     }
 
-    await Promise.all(installPromises);
-
-    return {
-        skillPaths: Array.from(skillPaths),
-        agentPaths: Array.from(agentPaths)
-    };
+    const items = (await Promise.all(pending)).filter((entry): entry is PlannedItem => Boolean(entry));
+    return { items, mcpServers: await Promise.all(pendingServers), userMcpServers, skipped };
 }
 
 function toTildePath(absolutePath: string): string {
@@ -384,6 +1031,19 @@ function toTildePath(absolutePath: string): string {
     return absolutePath.replace(/\\/g, '/');
 }
 
+/**
+ * Expand a leading `~` to the home directory, as used by install layout roots.
+ */
+export function expandHomePath(value: string): string {
+    if (value === '~') {
+        return os.homedir();
+    }
+    if (value.startsWith('~/') || value.startsWith('~\\')) {
+        return path.join(os.homedir(), value.slice(2));
+    }
+    return value;
+}
+
 function getWorkspaceSettingObject(key: string): Record<string, boolean> {
     const inspection = vscode.workspace.getConfiguration().inspect<Record<string, boolean>>(key);
     const workspaceValue = inspection?.workspaceValue;
@@ -397,46 +1057,40 @@ async function updateWorkspaceChatFileSettings(paths: InstalledPathCollection):
         return;
     }
 
-    const existingSkills = getWorkspaceSettingObject('chat.agentSkillsLocations');
-    const existingAgents = getWorkspaceSettingObject('chat.agentFilesLocations');
-
-    const mergedSkills: Record<string, boolean> = { ...existingSkills };
-    for (const skillPath of paths.skillPaths) {
-        mergedSkills[toTildePath(skillPath)] = true;
-    }
+    for (const [setting, locations] of Object.entries(paths)) {
+        const merged: Record<string, boolean> = { ...getWorkspaceSettingObject(setting) };
+        for (const location of locations) {
+            merged[toTildePath(location)] = true;
+        }
 
-    const mergedAgents: Record<string, boolean> = { ...existingAgents };
-    for (const agentPath of paths.agentPaths) {
-        mergedAgents[toTildePath(agentPath)] = true;
+        await vscode.workspace
+            .getConfiguration()
+            .update(setting, merged, vscode.ConfigurationTarget.Workspace);
     }
-
-    await vscode.workspace
-        .getConfiguration()
-        .update('chat.agentSkillsLocations', mergedSkills, vscode.ConfigurationTarget.Workspace);
-    await vscode.workspace
-        .getConfiguration()
-        .update('chat.agentFilesLocations', mergedAgents, vscode.ConfigurationTarget.Workspace);
 }
 
-
-export function resolveAgentsPath(scope: InstallScope): string | undefined {
+/**
+ * Root that installs of a scope go to. Workspace installs use the given folder, or the first workspace folder.
+ */
+export function resolveAgentsPath(scope: InstallScope, workspaceFolder?: vscode.WorkspaceFolder): string | undefined {
     if (scope === 'user') {
-        return path.join(os.homedir(), '.copilot', 'installed-plugins');
+        return expandHomePath(getInstallLayout().userRoot);
     }
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    const folder = workspaceFolder ?? vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
         return undefined;
     }
 
-    return workspaceFolder.uri.fsPath;
+    return folder.uri.fsPath;
 }
 
 export function buildInstallPayload(
     plugins: MarketplacePlugin[],
     scope: InstallScope,
     targetPath: string,
-    marketplaceUrls: string[]
+    marketplaceUrls: string[],
+    selections?: Map<string, PluginItemSelection[]>
 ): InstallPayload {
     return {
         version: 'v1',
@@ -449,51 +1103,936 @@ export function buildInstallPayload(
             name: plugin.name,
             version: plugin.version,
             sourceUrl: plugin.sourceUrl,
-            downloadUrl: plugin.downloadUrl
+            downloadUrl: plugin.downloadUrl,
+            items: selections?.get(installedPluginKey(plugin.id, plugin.sourceUrl))
         })),
         marketplaceUrls
     };
 }
 
-export async function persistLastOperation(
+function isInstalledAtTarget(context: vscode.ExtensionContext, payload: InstallPayload): boolean {
+    return payload.plugins.length > 0 && payload.plugins.every((plugin) =>
+        Boolean(findInstalledPlugin(context, payload.scope, plugin.id, plugin.sourceUrl, payload.targetPath))
+    );
+}
+
+/**
+ * Add an install to the operation history, with the revision each plugin was fetched from and every file it wrote.
+ */
+async function recordInstallHistory(
     context: vscode.ExtensionContext,
     payload: InstallPayload,
-    result: OperationResult
+    result: OperationResult,
+    isUpdate: boolean,
+    plan?: InstallPlan
 ): Promise<void> {
-    const key = payload.scope === 'workspace' ? 'lastOperation.workspace' : 'lastOperation.user';
-    const store = payload.scope === 'workspace' ? context.workspaceState : context.globalState;
-    await store.update(key, {
+    const planned = new Map((plan?.plugins ?? []).map((entry) => [installedPluginKey(entry.plugin.id, entry.plugin.sourceUrl), entry]));
+    await recordOperation(context, {
         timestamp: new Date().toISOString(),
+        operation: isUpdate ? 'update' : 'install',
         scope: payload.scope,
         targetPath: payload.targetPath,
-        pluginCount: payload.plugins.length,
         success: result.success,
-        error: result.error
+        error: result.error,
+        plugins: payload.plugins.map((plugin) => {
+            const revision = planned.get(installedPluginKey(plugin.id, plugin.sourceUrl));
+            return {
+                id: plugin.id,
+                name: plugin.name,
+                version: plugin.version,
+                sourceUrl: plugin.sourceUrl,
+                branch: revision?.branch,
+                commit: revision?.commit,
+                items: plugin.items
+            };
+        }),
+        // Failed installs are rolled back, so they leave no files behind
+        files: result.success && plan
+            ? plan.plugins.flatMap((entry) => [
+                ...entry.items.flatMap((item) => item.files.flatMap((file) =>
+                    file.action === 'unchanged' ? [] : [{ path: file.targetPath, action: file.action }]
+                )),
+                ...entry.items.flatMap((item) => (item.staleFiles ?? []).flatMap((file) =>
+                    file.locallyModified ? [] : [{ path: file.targetPath, action: 'delete' as const }]
+                )),
+                ...entry.mcpServers.flatMap((server) =>
+                    server.action === 'unchanged' ? [] : [{ path: `${server.configPath}#${server.key}`, action: server.action }]
+                )
+            ])
+            : []
     });
 }
 
-export async function executeInstall(
+export interface InstallOptions {
+    /** Commit SHAs to install from instead of the branch head, keyed by installed plugin key. */
+    pinnedCommits?: Map<string, string>;
+    /** Choices for conflicting items, keyed by `conflictResolutionKey`; remembered for later installs. */
+    conflictResolutions?: Map<string, ConflictResolution>;
+    /**
+     * Decide about locally modified files the update would change, keyed by target path.
+     * Returning undefined cancels the install; without it local edits are kept.
+     */
+    resolveLocalEdits?: (edits: LocalEdit[]) => Promise<Map<string, LocalEditResolution> | undefined>;
+    /**
+     * Ask for environment variables MCP servers need but the environment does not set, keyed by variable name.
+     * Returning undefined cancels the install; without it the placeholders are written as they are.
+     */
+    resolveMcpValues?: (prompts: McpValuePrompt[]) => Promise<Map<string, string> | undefined>;
+}
+
+export interface InstallConflict {
+    /** Key of the conflicting item, as used by `InstallOptions.conflictResolutions`. */
+    key: string;
+    plugin: string;
+    group: string;
+    item: string;
+    targetPath: string;
+    /** Plugin that already claims the path, in this batch or the manifest; undefined for unmanaged files. */
+    conflictsWith?: string;
+    /** Where the item would go if namespaced as `<plugin>-<item>`. */
+    namespacedPath: string;
+}
+
+interface ResolvedPlugin {
+    plugin: MarketplacePlugin;
+    branch?: string;
+    commit?: string;
+}
+
+/**
+ * Point a plugin at a fixed commit by rewriting the raw.githubusercontent.com URLs it is fetched from.
+ */
+export function pinPluginToCommit(plugin: MarketplacePlugin, commit: string): MarketplacePlugin {
+    const repoContext = getRepoContext(plugin);
+    if (!repoContext || repoContext.localRoot || repoContext.branch === commit) {
+        return plugin;
+    }
+
+    const pinnedBase = `https://raw.githubusercontent.com/${repoContext.owner}/${repoContext.repo}/${commit}`;
+    const pin = (url: string): string => url.startsWith(`${repoContext.rawBaseUrl}/`)
+        ? `${pinnedBase}${url.slice(repoContext.rawBaseUrl.length)}`
+        : url;
+
+    return {
+        ...plugin,
+        marketplaceDocumentUrl: pin(plugin.marketplaceDocumentUrl),
+        sourceRepo: plugin.sourceRepo ? { ...plugin.sourceRepo, ref: commit } : undefined,
+        groups: plugin.groups.map((group) => ({
+            ...group,
+            items: group.items.map((item) => ({
+                ...item,
+                metadataUrl: item.metadataUrl ? pin(item.metadataUrl) : undefined,
+                metadataFallbackUrls: item.metadataFallbackUrls.map(pin)
+            }))
+        }))
+    };
+}
+
+/**
+ * Restrict a plugin to the named items, dropping groups that end up empty.
+ */
+export function narrowPluginToItems(plugin: MarketplacePlugin, items: PluginItemSelection[]): MarketplacePlugin {
+    const wanted = new Set(items.map((item) => `${item.group}::${item.name.toLowerCase()}`));
+    return {
+        ...plugin,
+        groups: plugin.groups
+            .map((group) => ({
+                ...group,
+                items: group.items.filter((item) => wanted.has(`${group.key}::${item.name.toLowerCase()}`))
+            }))
+            .filter((group) => group.items.length > 0)
+    };
+}
+
+function getPayloadSelections(payload: InstallPayload): Map<string, PluginItemSelection[]> {
+    return new Map(payload.plugins
+        .filter((entry) => entry.items)
+        .map((entry) => [installedPluginKey(entry.id, entry.sourceUrl), entry.items ?? []]));
+}
+
+function applyPayloadSelections(
+    plugins: MarketplacePlugin[],
+    selections: Map<string, PluginItemSelection[]>
+): MarketplacePlugin[] {
+    return plugins.map((plugin) => {
+        const items = selections.get(installedPluginKey(plugin.id, plugin.sourceUrl));
+        return items ? narrowPluginToItems(plugin, items) : plugin;
+    });
+}
+
+/**
+ * Find items whose install path is already taken, either by another plugin in the same batch,
+ * by another installed plugin, or by files the manifest does not know about.
+ * Items with a remembered resolution are not reported again.
+ */
+export async function detectInstallConflicts(
     context: vscode.ExtensionContext,
     plugins: MarketplacePlugin[],
     payload: InstallPayload
-): Promise<OperationResult> {
+): Promise<InstallConflict[]> {
+    const layout = getInstallLayout();
+    const mcpConfigPath = getMcpConfigPath(payload.scope, payload.targetPath);
+    const resolutions = getConflictResolutions(context, payload.scope);
+    const owners = new Map<string, { key: string; name: string }>();
+    for (const record of getInstalledPlugins(context, payload.scope)) {
+        for (const item of record.items) {
+            const ownedPath = item.mcpServer ? `${item.path}#${item.mcpServer}` : item.path;
+            owners.set(ownedPath, { key: installedPluginKey(record.id, record.sourceUrl), name: record.name });
+        }
+    }
+
+    const claimed = new Map<string, { key: string; name: string }>();
+    const conflicts: InstallConflict[] = [];
+    for (const plugin of applyPayloadSelections(plugins, getPayloadSelections(payload))) {
+        const pluginKey = installedPluginKey(plugin.id, plugin.sourceUrl);
+        const resolveRoot = createGroupRootResolver(payload.scope, payload.targetPath, plugin);
+        for (const group of plugin.groups) {
+            const isMcp = group.key === MCP_SERVERS_GROUP_KEY;
+            const target = resolveGroupTarget(layout, group.key);
+            if (!target && (!isMcp || !mcpConfigPath)) {
+                continue;
+            }
+
+            // MCP servers are claimed by their key in the MCP configuration file rather than by a path
+            const claimPath = (item: MarketplaceGroupItem, resolution?: ConflictResolution): string => target
+                ? itemTargetPath(plugin, item, target, resolveRoot(target), resolution)
+                : `${mcpConfigPath}#${mcpServerKey(plugin, item, resolution)}`;
+            for (const item of group.items) {
+                const key = conflictResolutionKey(plugin.id, plugin.sourceUrl, group.key, item.name);
+                const resolution = resolutions[key];
+                if (resolution === 'skip') {
+                    continue;
+                }
+
+                const targetPath = claimPath(item, resolution);
+                const batchOwner = claimed.get(targetPath);
+                const installedOwner = owners.get(targetPath);
+                claimed.set(targetPath, batchOwner ?? { key: pluginKey, name: plugin.name });
+                if (resolution) {
+                    continue;
+                }
+
+                let conflictsWith: string | undefined;
+                if (batchOwner && batchOwner.key !== pluginKey) {
+                    conflictsWith = batchOwner.name;
+                } else if (installedOwner) {
+                    if (installedOwner.key === pluginKey) {
+                        continue;
+                    }
+                    conflictsWith = installedOwner.name;
+                } else if (!(isMcp
+                    ? mcpConfigPath !== undefined && await hasMcpServer(mcpConfigPath, mcpServerKey(plugin, item, resolution))
+                    : await pathExists(targetPath))) {
+                    continue;
+                }
+
+                conflicts.push({
+                    key,
+                    plugin: plugin.name,
+                    group: group.key,
+                    item: item.name,
+                    targetPath,
+                    conflictsWith,
+                    namespacedPath: claimPath(item, 'namespace')
+                });
+            }
+        }
+    }
+
+    return conflicts;
+}
+
+async function resolvePluginRevisions(
+    plugins: MarketplacePlugin[],
+    pinnedCommits: Map<string, string> = new Map()
+): Promise<Map<MarketplacePlugin, ResolvedPlugin>> {
+    const byRepo = new Map<string, Promise<string | undefined>>();
+    const resolved = new Map<MarketplacePlugin, ResolvedPlugin>();
+
+    for (const plugin of plugins) {
+        const repoContext = getRepoContext(plugin);
+        // Local marketplaces have no branch or commit; their files are copied as they are on disk
+        if (!repoContext || repoContext.localRoot) {
+            resolved.set(plugin, { plugin });
+            continue;
+        }
+
+        const repoKey = `${repoContext.owner}/${repoContext.repo}@${repoContext.branch}`;
+        if (!byRepo.has(repoKey)) {
+            byRepo.set(repoKey, resolveCommitSha(repoContext));
+        }
+
+        const commit = pinnedCommits.get(installedPluginKey(plugin.id, plugin.sourceUrl)) ?? await byRepo.get(repoKey);
+        const pinned = commit ? pinPluginToCommit(plugin, commit) : plugin;
+        resolved.set(pinned, { plugin: pinned, branch: repoContext.branch, commit });
+    }
+
+    return resolved;
+}
+
+function computeContentHash(targetPath: string, items: InstalledItemRecord[]): string {
+    const entries = items.flatMap((item) => Object.entries(item.fileHashes ?? {}).map(([file, hash]) => {
+        const relative = path.relative(targetPath, file).replace(/\\/g, '/');
+        return `${relative}\0${hash}`;
+    }));
+
+    return sha256Hex(entries.sort().join('\n'));
+}
+
+function toInstalledRecords(plan: InstallPlan): InstalledPluginRecord[] {
+    const { payload } = plan;
+    return plan.plugins
+        .filter((planned) => planned.items.length > 0 || planned.mcpServers.length > 0)
+        .map((planned) => {
+            const items: InstalledItemRecord[] = planned.items.map((item) => {
+                // Locally edited files the update dropped stay on disk, so they stay tracked for uninstall
+                const kept = (item.staleFiles ?? []).filter((file) => file.locallyModified);
+                return {
+                    group: item.group,
+                    name: item.name,
+                    path: item.path,
+                    sourcePath: item.sourcePath,
+                    files: [...item.files.map((file) => file.targetPath), ...kept.map((file) => file.targetPath)],
+                    fileHashes: Object.fromEntries([
+                        ...item.files.map((file) => [file.targetPath, sha256Hex(file.content)]),
+                        ...kept.flatMap((file) => file.installedHash ? [[file.targetPath, file.installedHash]] : [])
+                    ])
+                };
+            });
+            for (const server of planned.mcpServers) {
+                items.push({ group: MCP_SERVERS_GROUP_KEY, name: server.name, path: server.configPath, files: [], mcpServer: server.key });
+            }
+
+            return {
+                id: planned.plugin.id,
+                name: planned.plugin.name,
+                version: planned.plugin.version,
+                branch: planned.branch,
+                commit: planned.commit,
+                contentHash: computeContentHash(payload.targetPath, items),
+                sourceUrl: planned.plugin.sourceUrl,
+                scope: payload.scope,
+                targetPath: payload.targetPath,
+                installedAt: payload.requestedAt,
+                partial: planned.partial,
+                items
+            };
+        });
+}
+
+async function syncWorkspaceLockfile(
+    context: vscode.ExtensionContext,
+    workspaceRoot: string,
+    plugins: Array<{ id: string; sourceUrl: string }>
+): Promise<void> {
+    const upserts: InstalledPluginRecord[] = [];
+    const removals: Array<{ id: string; sourceUrl: string }> = [];
+    for (const plugin of plugins) {
+        const record = findInstalledPlugin(context, 'workspace', plugin.id, plugin.sourceUrl, workspaceRoot);
+        if (record) {
+            upserts.push(record);
+        } else {
+            removals.push(plugin);
+        }
+    }
+
+    await updateLockfile(workspaceRoot, upserts, removals);
+}
+
+/**
+ * Flag files that were edited after they were installed, by comparing them with the hashes recorded at install time.
+ * Files the update leaves as they were installed keep their local edits without asking.
+ */
+export async function markLocalEdits(context: vscode.ExtensionContext, plan: InstallPlan): Promise<void> {
+    const { payload } = plan;
+    for (const planned of plan.plugins) {
+        const record = findInstalledPlugin(context, payload.scope, planned.plugin.id, planned.plugin.sourceUrl, payload.targetPath);
+        const installedHashes = Object.assign({}, ...(record?.items ?? []).map((item) => item.fileHashes ?? {})) as Record<string, string>;
+        for (const file of planned.items.flatMap((item) => item.files)) {
+            const installedHash = installedHashes[file.targetPath];
+            if (!installedHash || file.action !== 'overwrite') {
+                continue;
+            }
+
+            let diskHash: string;
+            try {
+                diskHash = sha256Hex(await fs.readFile(file.targetPath));
+            } catch {
+                continue;
+            }
+            if (diskHash === installedHash) {
+                continue;
+            }
+
+            file.locallyModified = true;
+            file.installedHash = installedHash;
+            if (sha256Hex(file.content) === installedHash) {
+                // Only the local copy changed, so there is nothing new to take
+                file.action = 'unchanged';
+                file.localEdit = 'keep';
+            }
+        }
+    }
+}
+
+/**
+ * Find the files an earlier install of each planned item wrote that the new version no longer ships. Unedited ones
+ * are deleted by the install; locally edited ones, and ones without a recorded hash, are kept and stay in the manifest.
+ */
+async function markStaleFiles(context: vscode.ExtensionContext, plan: InstallPlan): Promise<void> {
+    const { payload } = plan;
+    const plannedPaths = new Set(plan.plugins.flatMap((planned) =>
+        planned.items.flatMap((item) => item.files.map((file) => file.targetPath))));
+    for (const planned of plan.plugins) {
+        const record = findInstalledPlugin(context, payload.scope, planned.plugin.id, planned.plugin.sourceUrl, payload.targetPath);
+        for (const item of planned.items) {
+            const previous = record?.items.find((entry) =>
+                entry.group === item.group && entry.name.toLowerCase() === item.name.toLowerCase());
+            const staleFiles: StaleFile[] = [];
+            for (const targetPath of previous?.files ?? []) {
+                if (plannedPaths.has(targetPath)) {
+                    continue;
+                }
+
+                let diskHash: string;
+                try {
+                    diskHash = sha256Hex(await fs.readFile(targetPath));
+                } catch {
+                    // Already gone
+                    continue;
+                }
+                const installedHash = previous?.fileHashes?.[targetPath];
+                staleFiles.push({ targetPath, installedHash, locallyModified: diskHash !== installedHash });
+            }
+            item.staleFiles = staleFiles;
+        }
+    }
+}
+
+/**
+ * Locally modified files that the plan would overwrite with a changed version.
+ */
+export function getLocalEdits(plan: InstallPlan): LocalEdit[] {
+    return plan.plugins.flatMap((planned) => planned.items.flatMap((item) => item.files
+        .filter((file) => file.locallyModified && file.action === 'overwrite' && !file.localEdit)
+        .map((file) => ({ plugin: planned.plugin.name, group: item.group, item: item.name, file }))));
+}
+
+/**
+ * Ask how locally modified files should be handled and apply the answers to the plan.
+ * Returns false when the install was cancelled. Files without an answer keep their local edits.
+ */
+export async function resolveLocalEdits(
+    plan: InstallPlan,
+    resolve?: InstallOptions['resolveLocalEdits']
+): Promise<boolean> {
+    const edits = getLocalEdits(plan);
+    if (edits.length === 0) {
+        return true;
+    }
+
+    const resolutions = resolve ? await resolve(edits) : new Map<string, LocalEditResolution>();
+    if (!resolutions) {
+        return false;
+    }
+
+    for (const { file } of edits) {
+        file.localEdit = resolutions.get(file.targetPath) ?? 'keep';
+        if (file.localEdit !== 'take') {
+            file.action = 'unchanged';
+        }
+        getLogger()?.info(`Locally modified ${file.targetPath}: ${file.localEdit}.`);
+    }
+    return true;
+}
+
+/**
+ * Ask for the environment variables planned MCP servers are missing and put the answers into their entries.
+ * Returns false when the install was cancelled.
+ */
+export async function resolveMcpValues(
+    plan: InstallPlan,
+    resolve?: InstallOptions['resolveMcpValues']
+): Promise<boolean> {
+    const servers = plan.plugins.flatMap((planned) => planned.mcpServers);
+    const prompts = new Map<string, McpValuePrompt>();
+    for (const server of servers) {
+        for (const variable of server.missingValues) {
+            const prompt = prompts.get(variable) ?? { variable, servers: [] };
+            prompt.servers.push(server.key);
+            prompts.set(variable, prompt);
+        }
+    }
+    if (prompts.size === 0) {
+        return true;
+    }
+
+    const values = resolve ? await resolve(Array.from(prompts.values())) : new Map<string, string>();
+    if (!values) {
+        return false;
+    }
+
+    for (const server of servers) {
+        fillMcpValues(server, values);
+        if (server.missingValues.length > 0) {
+            getLogger()?.warn(`MCP server '${server.key}' still needs ${server.missingValues.join(', ')}; set them in ${server.configPath}.`);
+        }
+        server.action = await planMcpServerAction(server);
+    }
+    return true;
+}
+
+/**
+ * Fetch everything an install would write and compare it with what is on disk, without writing anything.
+ */
+export async function createInstallPlan(
+    context: vscode.ExtensionContext,
+    plugins: MarketplacePlugin[],
+    payload: InstallPayload,
+    options?: InstallOptions
+): Promise<InstallPlan> {
+    const selections = getPayloadSelections(payload);
+    const selectedPlugins = applyPayloadSelections(plugins, selections);
+    const conflictResolutions = options?.conflictResolutions ?? new Map<string, ConflictResolution>();
+    const resolutions = { ...getConflictResolutions(context, payload.scope), ...Object.fromEntries(conflictResolutions) };
+    const layout = getInstallLayout();
+    const mcpConfigPath = getMcpConfigPath(payload.scope, payload.targetPath);
+
+    // Install every plugin from a fixed commit so the recorded hashes match what was fetched
+    const revisions = await resolvePluginRevisions(selectedPlugins, options?.pinnedCommits);
+    const chatLocations: InstalledPathCollection = {};
+    const planned = await Promise.all(Array.from(revisions.values()).map(async (revision) => ({
+        revision,
+        ...await planPluginGroups(revision.plugin, payload, layout, resolutions, chatLocations, mcpConfigPath)
+    })));
+
+    const plan: InstallPlan = {
+        payload,
+        plugins: planned.map(({ revision, items, mcpServers }) => ({
+            ...revision,
+            partial: selections.has(installedPluginKey(revision.plugin.id, revision.plugin.sourceUrl)),
+            items,
+            mcpServers
+        })),
+        skippedGroups: planned.flatMap((entry) => entry.skipped),
+        chatLocations,
+        conflictResolutions,
+        layout,
+        userMcpServers: planned.flatMap((entry) => entry.userMcpServers)
+    };
+    await markLocalEdits(context, plan);
+    return plan;
+}
+
+interface StagedInstall {
+    /** Move the staged files into place and remove the stale ones, backing up every file replaced or removed. */
+    commit(): Promise<void>;
+    /** Put back every file replaced or removed by `commit` and remove the ones it created. */
+    rollback(): Promise<void>;
+    dispose(): Promise<void>;
+}
+
+/**
+ * Folder that holds the staging folders of installs into a scope: the extension's storage for that scope, or the
+ * OS temp folder when the extension has none.
+ */
+function getStagingParent(context: vscode.ExtensionContext, scope: InstallScope): string {
+    const storage = scope === 'workspace' ? context.storageUri ?? context.globalStorageUri : context.globalStorageUri;
+    return storage ? path.join(storage.fsPath, STAGING_FOLDER) : os.tmpdir();
+}
+
+/**
+ * Remove staging folders that an install interrupted between staging and cleanup left behind.
+ */
+export async function removeLeftoverStagingFolders(context: vscode.ExtensionContext): Promise<void> {
+    const parents = new Set([getStagingParent(context, 'workspace'), getStagingParent(context, 'user'), os.tmpdir()]);
+    for (const parent of parents) {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(parent);
+        } catch {
+            continue;
+        }
+
+        for (const entry of entries.filter((name) => name.startsWith(STAGING_FOLDER_PREFIX))) {
+            const folder = path.join(parent, entry);
+            try {
+                if (Date.now() - (await fs.stat(folder)).mtimeMs < LEFTOVER_STAGING_AGE_MS) {
+                    continue;
+                }
+                await fs.rm(folder, { recursive: true, force: true });
+                getLogger()?.warn(`Removed staging folder left by an interrupted install: ${folder}`);
+            } catch (error) {
+                getLogger()?.warn(`Failed to remove leftover staging folder ${folder}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+}
+
+/**
+ * Rename a file, copying it instead when the staging folder and the install root are on different volumes.
+ */
+async function moveFile(from: string, to: string): Promise<void> {
     try {
-        if (payload.scope === 'workspace' && !vscode.workspace.workspaceFolders?.length) {
-            return { success: false, error: 'Open a workspace folder to install local skills and agents.' };
+        await fs.rename(from, to);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+            throw error;
         }
+        await fs.copyFile(from, to);
+        await fs.rm(from, { force: true });
+    }
+}
+
+/**
+ * Write every changed file of a plan into a staging folder in the extension's storage and verify the staged bytes,
+ * so a failed write never touches the installed files and nothing temporary ever appears in the install root.
+ */
+async function stagePlanFiles(context: vscode.ExtensionContext, plan: InstallPlan): Promise<StagedInstall> {
+    const changed = plan.plugins
+        .flatMap((planned) => planned.items.flatMap((item) => item.files))
+        .filter((file) => file.action !== 'unchanged');
+    const removed = plan.plugins
+        .flatMap((planned) => planned.items.flatMap((item) => item.staleFiles ?? []))
+        .filter((file) => !file.locallyModified);
+
+    const stagingParent = getStagingParent(context, plan.payload.scope);
+    await fs.mkdir(stagingParent, { recursive: true });
+    const stagingRoot = await fs.mkdtemp(path.join(stagingParent, STAGING_FOLDER_PREFIX));
+    const dispose = async (): Promise<void> => {
+        await fs.rm(stagingRoot, { recursive: true, force: true });
+    };
+    const stagedPath = (index: number): string => path.join(stagingRoot, 'staged', String(index));
+    const backupPath = (index: number): string => path.join(stagingRoot, 'backup', String(index));
 
+    try {
+        await fs.mkdir(path.join(stagingRoot, 'staged'));
+        await fs.mkdir(path.join(stagingRoot, 'backup'));
+        for (const [index, file] of changed.entries()) {
+            await fs.writeFile(stagedPath(index), file.content);
+            const written = await fs.readFile(stagedPath(index));
+            if (sha256Hex(written) !== sha256Hex(file.content)) {
+                throw new Error(`Staged copy of ${file.targetPath} does not match the downloaded content.`);
+            }
+        }
+    } catch (error) {
+        await dispose();
+        throw error;
+    }
+
+    const moved: Array<{ targetPath: string; backup?: string }> = [];
+    return {
+        async commit() {
+            for (const [index, file] of changed.entries()) {
+                await fs.mkdir(path.dirname(file.targetPath), { recursive: true });
+                let backup: string | undefined;
+                if (await pathExists(file.targetPath)) {
+                    backup = backupPath(index);
+                    await moveFile(file.targetPath, backup);
+                }
+                moved.push({ targetPath: file.targetPath, backup });
+                await moveFile(stagedPath(index), file.targetPath);
+            }
+            // Files the update dropped go to the backup folder too, so a rollback can bring them back
+            for (const [index, file] of removed.entries()) {
+                const backup = backupPath(changed.length + index);
+                await moveFile(file.targetPath, backup);
+                moved.push({ targetPath: file.targetPath, backup });
+                await pruneEmptyDirectories(path.dirname(file.targetPath), plan.payload.targetPath);
+            }
+        },
+        async rollback() {
+            for (const { targetPath, backup } of moved.reverse()) {
+                try {
+                    await fs.rm(targetPath, { force: true });
+                    if (backup) {
+                        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+                        await moveFile(backup, targetPath);
+                    } else {
+                        await pruneEmptyDirectories(path.dirname(targetPath), plan.payload.targetPath);
+                    }
+                } catch (error) {
+                    getLogger()?.error(`Failed to restore ${targetPath}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            getLogger()?.warn(`Rolled back ${moved.length} file(s) after a failed install.`);
+        },
+        dispose
+    };
+}
+
+/**
+ * Write a previously computed plan to disk and record it in the manifest (and lockfile for workspace installs).
+ */
+export async function applyInstallPlan(context: vscode.ExtensionContext, plan: InstallPlan): Promise<OperationResult> {
+    const { payload } = plan;
+    const isUpdate = isInstalledAtTarget(context, payload);
+    try {
         if (payload.scope === 'workspace') {
-            await materializeLocalInstallStructure(payload.targetPath, plugins);
-        } else {
-            const installedPaths = await materializeUserInstallStructure(payload.targetPath, plugins);
-            await updateWorkspaceChatFileSettings(installedPaths);
+            // A lockfile that cannot be updated fails the install before any file is touched
+            await readLockfile(payload.targetPath);
         }
+        await markStaleFiles(context, plan);
+        const staged = await stagePlanFiles(context, plan);
+        const records = toInstalledRecords(plan);
+        let restoreMcpConfigs: (() => Promise<void>) | undefined;
+        try {
+            await staged.commit();
+            restoreMcpConfigs = await writeMcpServers(plan.plugins.flatMap((planned) => planned.mcpServers));
+            if (payload.scope === 'user') {
+                await updateWorkspaceChatFileSettings(plan.chatLocations);
+            }
 
-        await persistLastOperation(context, payload, { success: true });
-        return { success: true };
+            await storePristineCopies(context, payload.scope, plan.plugins.flatMap((planned) =>
+                planned.items.flatMap((item) => item.files.map((file) => file.content))
+            ));
+            await recordInstalledPlugins(context, payload.scope, records);
+            await recordConflictResolutions(context, payload.scope, plan.conflictResolutions);
+            if (payload.scope === 'workspace') {
+                await syncWorkspaceLockfile(context, payload.targetPath, records);
+            }
+        } catch (error) {
+            await restoreMcpConfigs?.();
+            await staged.rollback();
+            throw error;
+        } finally {
+            await staged.dispose();
+        }
+
+        for (const skipped of plan.skippedGroups) {
+            getLogger()?.warn(`Skipped ${skipped.itemCount} ${skipped.group} item(s) of plugin '${skipped.plugin}': ${skipped.reason}`);
+        }
+        await prunePristineCopies(context, payload.scope);
+        for (const planned of plan.plugins) {
+            for (const file of planned.items.flatMap((item) => item.files)) {
+                if (file.localEdit !== 'merge' || !file.installedHash) {
+                    continue;
+                }
+                try {
+                    await openThreeWayMerge(context, payload.scope, {
+                        targetPath: file.targetPath,
+                        installedHash: file.installedHash,
+                        incoming: file.content,
+                        incomingTitle: planned.plugin.name
+                    });
+                } catch (error) {
+                    getLogger()?.error(`Failed to open a merge for ${file.targetPath}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+        }
+
+        const problemCount = await validateInstalledItems(records.flatMap((record) => record.items));
+        if (problemCount > 0) {
+            getLogger()?.warn(`Found ${problemCount} problem(s) in the installed files; see the Problems panel.`);
+        }
+
+        const result: OperationResult = { success: true, skippedGroups: plan.skippedGroups, problemCount, userMcpServers: plan.userMcpServers };
+        await recordInstallHistory(context, payload, result, isUpdate, plan);
+        return result;
+    } catch (error) {
+        const result: OperationResult = { success: false, error: error instanceof Error ? error.message : String(error) };
+        await recordInstallHistory(context, payload, result, isUpdate, plan);
+        return result;
+    }
+}
+
+export async function executeInstall(
+    context: vscode.ExtensionContext,
+    plugins: MarketplacePlugin[],
+    payload: InstallPayload,
+    options?: InstallOptions
+): Promise<OperationResult> {
+    if (payload.scope === 'workspace' && !vscode.workspace.workspaceFolders?.length) {
+        return { success: false, error: 'Open a workspace folder to install local skills and agents.' };
+    }
+
+    let plan: InstallPlan;
+    try {
+        plan = await createInstallPlan(context, plugins, payload, options);
+    } catch (error) {
+        const result: OperationResult = { success: false, error: error instanceof Error ? error.message : String(error) };
+        await recordInstallHistory(context, payload, result, isInstalledAtTarget(context, payload));
+        return result;
+    }
+
+    if (!(await resolveLocalEdits(plan, options?.resolveLocalEdits))) {
+        getLogger()?.info('Install cancelled while resolving locally modified files.');
+        return { success: false, cancelled: true };
+    }
+    if (!(await resolveMcpValues(plan, options?.resolveMcpValues))) {
+        getLogger()?.info('Install cancelled while asking for MCP server values.');
+        return { success: false, cancelled: true };
+    }
+
+    return applyInstallPlan(context, plan);
+}
+
+/**
+ * Remove empty directories from `startDir` upwards, stopping at (and never removing) `stopDir`.
+ */
+async function pruneEmptyDirectories(startDir: string, stopDir: string): Promise<void> {
+    let current = startDir;
+    while (current.startsWith(stopDir) && path.relative(stopDir, current) !== '') {
+        try {
+            const entries = await fs.readdir(current);
+            if (entries.length > 0) {
+                return;
+            }
+            await fs.rmdir(current);
+        } catch {
+            return;
+        }
+        current = path.dirname(current);
+    }
+}
+
+async function pathExists(targetPath: string): Promise<boolean> {
+    try {
+        await fs.access(targetPath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function removeStaleWorkspaceChatFileSettings(candidateRoots: string[]): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        return;
+    }
+
+    const staleKeys = new Set<string>();
+    for (const root of candidateRoots) {
+        if (!(await pathExists(root))) {
+            staleKeys.add(toTildePath(root));
+        }
+    }
+    if (staleKeys.size === 0) {
+        return;
+    }
+
+    const settingKeys = new Set(Object.values(GROUP_INSTALL_TARGETS).map((target) => target.chatSetting));
+    for (const key of settingKeys) {
+        const existing = getWorkspaceSettingObject(key);
+        const remaining = Object.fromEntries(Object.entries(existing).filter(([location]) => !staleKeys.has(location)));
+        if (Object.keys(remaining).length !== Object.keys(existing).length) {
+            await vscode.workspace.getConfiguration().update(key, remaining, vscode.ConfigurationTarget.Workspace);
+        }
+    }
+}
+
+export interface UninstallOptions {
+    /**
+     * Decide whether locally modified files are deleted along with the rest: true deletes them, false keeps them.
+     * Returning undefined cancels the uninstall; without it local edits are kept.
+     */
+    deleteLocalEdits?: (files: string[]) => Promise<boolean | undefined>;
+}
+
+/**
+ * Installed files of the given items whose content no longer matches the hash recorded at install time.
+ * Files without a recorded hash and files that are already gone are left out.
+ */
+export async function findLocallyModifiedFiles(items: InstalledItemRecord[]): Promise<string[]> {
+    const modified: string[] = [];
+    for (const item of items) {
+        for (const file of item.files) {
+            const installedHash = item.fileHashes?.[file];
+            if (!installedHash) {
+                continue;
+            }
+            try {
+                if (sha256Hex(await fs.readFile(file)) !== installedHash) {
+                    modified.push(file);
+                }
+            } catch {
+                // Already gone
+            }
+        }
+    }
+    return modified;
+}
+
+/**
+ * Delete exactly the files recorded in the install manifest for a plugin, then drop them from the manifest.
+ * When `items` is given only those items are removed; otherwise the whole plugin is uninstalled.
+ * Files edited since they were installed are kept unless `options.deleteLocalEdits` says otherwise.
+ */
+export async function executeUninstall(
+    context: vscode.ExtensionContext,
+    record: InstalledPluginRecord,
+    items: InstalledItemRecord[] = record.items,
+    options?: UninstallOptions
+): Promise<OperationResult> {
+    const modified = await findLocallyModifiedFiles(items);
+    let kept = modified;
+    if (modified.length > 0 && options?.deleteLocalEdits) {
+        const deleteLocalEdits = await options.deleteLocalEdits(modified);
+        if (deleteLocalEdits === undefined) {
+            getLogger()?.info('Uninstall cancelled while deciding about locally modified files.');
+            return { success: false, cancelled: true };
+        }
+        kept = deleteLocalEdits ? [] : modified;
+    }
+
+    let result: OperationResult;
+    try {
+        if (record.scope === 'workspace') {
+            await readLockfile(record.targetPath);
+        }
+        for (const item of items) {
+            for (const file of item.files) {
+                if (kept.includes(file)) {
+                    getLogger()?.warn(`Kept ${file}: it was changed locally since it was installed.`);
+                    continue;
+                }
+                await fs.rm(file, { force: true });
+                await pruneEmptyDirectories(path.dirname(file), record.targetPath);
+            }
+            if (item.mcpServer) {
+                await removeMcpServers(item.path, [item.mcpServer]);
+            }
+        }
+
+        if (record.scope === 'user') {
+            const itemRoots = new Set(items.filter((item) => !item.mcpServer).map((item) => path.dirname(item.path)));
+            await removeStaleWorkspaceChatFileSettings(Array.from(itemRoots));
+        }
+
+        await removeInstalledItems(context, record, items);
+        clearItemValidation(items);
+        await prunePristineCopies(context, record.scope);
+        if (record.scope === 'workspace') {
+            await syncWorkspaceLockfile(context, record.targetPath, [record]);
+        }
+        getLogger()?.info(`Removed ${items.length} item(s) of plugin '${record.name}' from ${record.scope} scope.`);
+        result = { success: true, keptFiles: kept };
     } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        await persistLastOperation(context, payload, { success: false, error: message });
-        return { success: false, error: message };
+        result = { success: false, error: message };
     }
+
+    await recordOperation(context, {
+        timestamp: new Date().toISOString(),
+        operation: 'uninstall',
+        scope: record.scope,
+        targetPath: record.targetPath,
+        success: result.success,
+        error: result.error,
+        plugins: [{
+            id: record.id,
+            name: record.name,
+            version: record.version,
+            sourceUrl: record.sourceUrl,
+            branch: record.branch,
+            commit: record.commit,
+            items: items === record.items ? undefined : items.map((item) => ({ group: item.group, name: item.name }))
+        }],
+        files: result.success
+            ? items.flatMap((item) => [
+                ...item.files.map((file) => ({ path: file, action: kept.includes(file) ? 'keep' as const : 'delete' as const })),
+                ...(item.mcpServer ? [{ path: `${item.path}#${item.mcpServer}`, action: 'delete' as const }] : [])
+            ])
+            : []
+    });
+    return result;
 }
@@ -0,0 +1,128 @@
+import * as crypto from 'node:crypto';
+import * as path from 'node:path';
+import { fetchWithGitHubAuth } from './github-auth';
+import { getLogger } from './logger';
+
+/** A file or folder of a repository path listing, shaped like an entry of the GitHub contents API. */
+export interface RepoPathEntry {
+    type: 'file' | 'dir';
+    name: string;
+    path: string;
+    /** Git blob SHA of a file. */
+    sha?: string;
+}
+
+export interface RepoTree {
+    files: Map<string, RepoPathEntry>;
+    children: Map<string, RepoPathEntry[]>;
+}
+
+interface GitTreeResponse {
+    truncated?: boolean;
+    tree?: Array<{ path?: string; type?: string; sha?: string }>;
+}
+
+// Trees of a commit never change, so they are kept for the session; only a handful of repositories are in play at once.
+// Branch trees move, so they are only reused for the length of an install.
+const MAX_CACHED_TREES = 20;
+const BRANCH_TREE_TTL_MS = 60 * 1000;
+const treeCache = new Map<string, { tree: Promise<RepoTree | undefined>; expiresAt: number }>();
+
+function indexTree(response: GitTreeResponse): RepoTree {
+    const files = new Map<string, RepoPathEntry>();
+    const children = new Map<string, RepoPathEntry[]>([['', []]]);
+    for (const entry of response.tree ?? []) {
+        if (!entry.path || (entry.type !== 'blob' && entry.type !== 'tree')) {
+            continue;
+        }
+
+        const listed: RepoPathEntry = {
+            type: entry.type === 'blob' ? 'file' : 'dir',
+            name: path.posix.basename(entry.path),
+            path: entry.path,
+            sha: entry.sha
+        };
+        if (listed.type === 'file') {
+            files.set(entry.path, listed);
+        } else if (!children.has(entry.path)) {
+            children.set(entry.path, []);
+        }
+
+        const parent = path.posix.dirname(entry.path);
+        const siblings = children.get(parent === '.' ? '' : parent) ?? [];
+        siblings.push(listed);
+        children.set(parent === '.' ? '' : parent, siblings);
+    }
+    return { files, children };
+}
+
+async function loadRepoTree(owner: string, repo: string, ref: string): Promise<RepoTree | undefined> {
+    const url = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`;
+    try {
+        const response = await fetchWithGitHubAuth(url, {
+            headers: {
+                'User-Agent': 'vscode-agent-plugins',
+                'Accept': 'application/vnd.github+json'
+            }
+        });
+        if (!response.ok) {
+            getLogger()?.trace(`GitHub API returned ${response.status} ${response.statusText} for ${url}`);
+            return undefined;
+        }
+
+        const payload = (await response.json()) as GitTreeResponse;
+        if (payload.truncated) {
+            getLogger()?.debug(`Git tree of ${owner}/${repo}@${ref} is truncated; listing folders one by one instead.`);
+            return undefined;
+        }
+        return indexTree(payload);
+    } catch (error) {
+        getLogger()?.trace(`Failed to fetch git tree for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+    }
+}
+
+/**
+ * Fetch the whole file tree of a repository revision with a single Git Trees API call.
+ * Resolves to undefined when the tree is unavailable or truncated, so callers can fall back to the contents API.
+ */
+export function fetchRepoTree(owner: string, repo: string, ref: string): Promise<RepoTree | undefined> {
+    const key = `${owner}/${repo}@${ref}`.toLowerCase();
+    const cached = treeCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.tree;
+    }
+
+    if (treeCache.size >= MAX_CACHED_TREES) {
+        treeCache.delete(treeCache.keys().next().value as string);
+    }
+    const tree = loadRepoTree(owner, repo, ref);
+    const expiresAt = /^[0-9a-f]{40}$/i.test(ref) ? Number.POSITIVE_INFINITY : Date.now() + BRANCH_TREE_TTL_MS;
+    treeCache.set(key, { tree, expiresAt });
+    // A missing or truncated tree is retried later rather than after every folder of the fallback listing
+    void tree.then((loaded) => {
+        if (!loaded && treeCache.get(key)?.tree === tree) {
+            treeCache.set(key, { tree, expiresAt: Date.now() + BRANCH_TREE_TTL_MS });
+        }
+    });
+    return tree;
+}
+
+/**
+ * List a path of a fetched tree the way the GitHub contents API does: a single entry for a file,
+ * the direct children for a folder, or undefined when the path does not exist.
+ */
+export function listRepoTreePath(tree: RepoTree, relativePath: string): RepoPathEntry | RepoPathEntry[] | undefined {
+    const file = tree.files.get(relativePath);
+    if (file) {
+        return file;
+    }
+    return tree.children.get(relativePath);
+}
+
+/**
+ * Compute the Git blob SHA-1 of some content, as listed by the trees and contents APIs.
+ */
+export function gitBlobSha(content: Buffer): string {
+    return crypto.createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
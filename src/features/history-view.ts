@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+import type { ExtensionServices } from '../extension';
+import {
+    clearOperationHistory,
+    getOperationHistory,
+    onDidChangeOperationHistory,
+    MAX_HISTORY_ENTRIES,
+    type HistoryEntry,
+    type HistoryOperation
+} from './history';
+import { escapeHtml, getNonce } from './utils';
+
+type HistoryViewMessage = { type: 'export' } | { type: 'clear' };
+
+const operationLabels: Record<HistoryOperation, string> = {
+    install: 'Install',
+    update: 'Update',
+    uninstall: 'Uninstall'
+};
+
+let currentPanel: vscode.WebviewPanel | undefined;
+
+function renderPlugins(entry: HistoryEntry): string {
+    return entry.plugins.map((plugin) => {
+        const revision = plugin.commit ? ` <code title="${escapeHtml(plugin.commit)}">@${escapeHtml(plugin.commit.slice(0, 7))}</code>` : '';
+        const version = plugin.version ? ` ${escapeHtml(plugin.version)}` : '';
+        const items = plugin.items?.length
+            ? ` <span class="muted">(${plugin.items.map((item) => `${escapeHtml(item.group)} › ${escapeHtml(item.name)}`).join(', ')})</span>`
+            : '';
+        return `<div title="${escapeHtml(plugin.sourceUrl)}">${escapeHtml(plugin.name)}${version}${revision}${items}</div>`;
+    }).join('');
+}
+
+function renderFiles(entry: HistoryEntry): string {
+    if (entry.files.length === 0) {
+        return '<span class="muted">None</span>';
+    }
+
+    const rows = entry.files.map((file) =>
+        `<li><span class="action ${file.action}">${escapeHtml(file.action)}</span> ${escapeHtml(vscode.workspace.asRelativePath(file.path))}</li>`
+    ).join('');
+    return `<details><summary>${entry.files.length} file(s)</summary><ul>${rows}</ul></details>`;
+}
+
+function renderRows(history: HistoryEntry[]): string {
+    return history.map((entry) => `
+        <tr class="${entry.success ? 'succeeded' : 'failed'}">
+          <td class="time" title="${escapeHtml(entry.timestamp)}">${escapeHtml(new Date(entry.timestamp).toLocaleString())}</td>
+          <td>${operationLabels[entry.operation]}</td>
+          <td title="${escapeHtml(entry.targetPath)}">${entry.scope === 'workspace' ? 'Workspace' : 'User'}</td>
+          <td>${renderPlugins(entry)}</td>
+          <td>${renderFiles(entry)}</td>
+          <td>${entry.success
+            ? '<span class="codicon codicon-pass"></span> Succeeded'
+            : `<span class="codicon codicon-error"></span> ${escapeHtml(entry.error ?? 'Failed')}`}</td>
+        </tr>`).join('');
+}
+
+function createHistoryHtml(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, history: HistoryEntry[]): string {
+    const nonce = getNonce();
+    const codiconCss = panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'dist', 'codicon.css'));
+    const elementsScript = panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'dist', 'vscode-elements.js'));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${panel.webview.cspSource} 'unsafe-inline'; font-src ${panel.webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Install History</title>
+  <link nonce="${nonce}" rel="stylesheet" href="${codiconCss}" id="vscode-codicon-stylesheet">
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      padding: 20px;
+      margin: 0;
+    }
+    .summary {
+      display: flex;
+      gap: 16px;
+      align-items: center;
+      padding-bottom: 16px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+    }
+    .actions { margin-left: auto; display: flex; gap: 8px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; margin-top: 16px; }
+    th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    th { font-weight: 600; opacity: 0.8; }
+    td.time { white-space: nowrap; }
+    tr.failed td:last-child { color: var(--vscode-errorForeground); }
+    ul { margin: 4px 0; padding-left: 16px; font-family: var(--vscode-editor-font-family); }
+    summary { cursor: pointer; }
+    .muted { opacity: 0.6; }
+    .action {
+      display: inline-block;
+      padding: 0 6px;
+      border-radius: 10px;
+      font-size: 11px;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
+    .action.delete {
+      background: var(--vscode-inputValidation-errorBackground);
+      color: var(--vscode-foreground);
+    }
+    .empty { font-style: italic; opacity: 0.6; }
+  </style>
+</head>
+<body>
+  <div class="summary">
+    <span><strong>${history.length}</strong> operation(s), newest first. The last ${MAX_HISTORY_ENTRIES} per scope are kept.</span>
+    <div class="actions">
+      <vscode-button id="clearButton" appearance="secondary">Clear History</vscode-button>
+      <vscode-button id="exportButton">Export JSON</vscode-button>
+    </div>
+  </div>
+  ${history.length > 0 ? `<table>
+    <thead><tr><th>Time</th><th>Operation</th><th>Scope</th><th>Plugins</th><th>Files</th><th>Result</th></tr></thead>
+    <tbody>${renderRows(history)}</tbody>
+  </table>` : '<p class="empty">No installs, updates or removals have been recorded yet.</p>'}
+  <script nonce="${nonce}" type="module" src="${elementsScript}"></script>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('exportButton').addEventListener('click', () => {
+      vscode.postMessage({ type: 'export' });
+    });
+    document.getElementById('clearButton').addEventListener('click', () => {
+      vscode.postMessage({ type: 'clear' });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Save the operation history of both scopes to a JSON file chosen by the user.
+ */
+export async function exportOperationHistory(services: ExtensionServices): Promise<void> {
+    const history = getOperationHistory(services.context);
+    if (history.length === 0) {
+        vscode.window.showInformationMessage('No install history has been recorded yet.');
+        return;
+    }
+
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, 'agent-plugins-history.json') : undefined,
+        filters: { JSON: ['json'] },
+        saveLabel: 'Export History'
+    });
+    if (!target) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(target, Buffer.from(`${JSON.stringify(history, undefined, 2)}\n`, 'utf8'));
+    services.logger.info(`Exported ${history.length} history entries to ${target.fsPath}.`);
+    vscode.window.showInformationMessage(`Exported ${history.length} history entries to ${target.fsPath}.`);
+}
+
+/**
+ * Show every recorded install, update and removal, refreshing while the panel is open.
+ */
+export function showOperationHistory(services: ExtensionServices): void {
+    if (currentPanel) {
+        currentPanel.reveal();
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'vscode-agent-plugins.installHistory',
+        'Install History',
+        vscode.ViewColumn.One,
+        {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(services.context.extensionUri, 'dist')]
+        }
+    );
+    currentPanel = panel;
+
+    const render = (): void => {
+        panel.webview.html = createHistoryHtml(panel, services.context.extensionUri, getOperationHistory(services.context));
+    };
+
+    panel.iconPath = new vscode.ThemeIcon('history');
+    render();
+
+    const subscriptions = [
+        onDidChangeOperationHistory(render),
+        panel.webview.onDidReceiveMessage(async (message: HistoryViewMessage) => {
+            if (message.type === 'export') {
+                await exportOperationHistory(services);
+                return;
+            }
+
+            if (message.type === 'clear') {
+                const confirmation = await vscode.window.showWarningMessage(
+                    'Clear the install history of this workspace and the user scope?',
+                    { modal: true },
+                    'Clear'
+                );
+                if (confirmation === 'Clear') {
+                    await clearOperationHistory(services.context);
+                }
+            }
+        })
+    ];
+    panel.onDidDispose(() => {
+        currentPanel = undefined;
+        subscriptions.forEach((subscription) => subscription.dispose());
+    });
+}
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import type { InstallScope } from './delegation';
+
+export type HistoryOperation = 'install' | 'update' | 'uninstall';
+
+export type HistoryFileAction = 'create' | 'overwrite' | 'delete' | 'keep';
+
+export interface HistoryPlugin {
+    id: string;
+    name: string;
+    version?: string;
+    sourceUrl: string;
+    /** Branch or tag the commit was resolved from. */
+    branch?: string;
+    /** Commit SHA of the marketplace repository the plugin came from, when known. */
+    commit?: string;
+    /** Items touched when the operation did not cover the whole plugin. */
+    items?: Array<{ group: string; name: string }>;
+}
+
+export interface HistoryEntry {
+    timestamp: string;
+    operation: HistoryOperation;
+    scope: InstallScope;
+    targetPath: string;
+    success: boolean;
+    error?: string;
+    plugins: HistoryPlugin[];
+    /** Files written, deleted, or kept by an uninstall because they were edited locally; unchanged files are left out. */
+    files: Array<{ path: string; action: HistoryFileAction }>;
+}
+
+/** Entries kept per scope; the oldest are dropped first. */
+export const MAX_HISTORY_ENTRIES = 200;
+
+const HISTORY_KEYS: Record<InstallScope, string> = {
+    workspace: 'operationHistory.workspace',
+    user: 'operationHistory.user'
+};
+
+const _onDidChangeOperationHistory = new vscode.EventEmitter<void>();
+export const onDidChangeOperationHistory = _onDidChangeOperationHistory.event;
+
+function getHistoryStore(context: vscode.ExtensionContext, scope: InstallScope): vscode.Memento {
+    return scope === 'workspace' ? context.workspaceState : context.globalState;
+}
+
+/**
+ * Recorded operations of one scope, or of both scopes merged, newest first.
+ */
+export function getOperationHistory(context: vscode.ExtensionContext, scope?: InstallScope): HistoryEntry[] {
+    const scopes: InstallScope[] = scope ? [scope] : ['workspace', 'user'];
+    return scopes
+        .flatMap((entryScope) => getHistoryStore(context, entryScope).get<HistoryEntry[]>(HISTORY_KEYS[entryScope], []))
+        .sort((left, right) => right.timestamp.localeCompare(left.timestamp));
+}
+
+export async function recordOperation(context: vscode.ExtensionContext, entry: HistoryEntry): Promise<void> {
+    const history = [entry, ...getOperationHistory(context, entry.scope)].slice(0, MAX_HISTORY_ENTRIES);
+    await getHistoryStore(context, entry.scope).update(HISTORY_KEYS[entry.scope], history);
+    _onDidChangeOperationHistory.fire();
+}
+
+export async function clearOperationHistory(context: vscode.ExtensionContext): Promise<void> {
+    await context.workspaceState.update(HISTORY_KEYS.workspace, undefined);
+    await context.globalState.update(HISTORY_KEYS.user, undefined);
+    _onDidChangeOperationHistory.fire();
+}
@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import { fileURLToPath } from 'node:url';
+import type { ExtensionServices } from '../extension';
+import type { InstallPlan, PlannedFileAction } from './delegation';
+import { isFileUrl } from './local-marketplace';
+import { HOOKS_GROUP_KEY } from './marketplace';
+import { escapeHtml, getNonce, isSafeUrl } from './utils';
+
+type InstallPreviewMessage = { type: 'install' } | { type: 'cancel' };
+
+const actionLabels: Record<PlannedFileAction, string> = {
+    create: 'Create',
+    overwrite: 'Overwrite',
+    unchanged: 'Unchanged'
+};
+
+function formatBytes(size: number): string {
+    if (size < 1024) {
+        return `${size} B`;
+    }
+    if (size < 1024 * 1024) {
+        return `${(size / 1024).toFixed(1)} KB`;
+    }
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function countLocallyModified(plan: InstallPlan): number {
+    return plan.plugins.reduce((sum, planned) =>
+        sum + planned.items.reduce((itemSum, item) => itemSum + item.files.filter((file) => file.locallyModified).length, 0), 0);
+}
+
+function countActions(plan: InstallPlan): Record<PlannedFileAction, number> {
+    const counts: Record<PlannedFileAction, number> = { create: 0, overwrite: 0, unchanged: 0 };
+    for (const planned of plan.plugins) {
+        for (const item of planned.items) {
+            for (const file of item.files) {
+                counts[file.action] += 1;
+            }
+        }
+        for (const server of planned.mcpServers) {
+            counts[server.action] += 1;
+        }
+    }
+    return counts;
+}
+
+function renderPlanRows(plan: InstallPlan): string {
+    return plan.plugins.map((planned) => {
+        const rows = planned.items.flatMap((item) => item.files.map((file) => `
+          <tr class="${file.action}">
+            <td><span class="action ${file.action}">${actionLabels[file.action]}</span>${file.verified
+                ? ' <span class="codicon codicon-verified" title="Matches the integrity digest declared by the marketplace"></span>'
+                : ''}${file.locallyModified
+                ? ` <span class="codicon codicon-edit" title="${file.action === 'overwrite'
+                    ? 'Changed locally since it was installed; you will be asked before it is overwritten'
+                    : 'Changed locally since it was installed; the update does not change it, so your edits are kept'}"></span>`
+                : ''}</td>
+            <td class="path" title="${escapeHtml(file.targetPath)}">${escapeHtml(vscode.workspace.asRelativePath(file.targetPath))}</td>
+            <td>${escapeHtml(item.group)} › ${escapeHtml(item.name)}</td>
+            <td class="size">${formatBytes(file.size)}</td>
+            <td class="source">${file.sourceUrl && isSafeUrl(file.sourceUrl)
+                ? `<a href="${escapeHtml(file.sourceUrl)}" title="${escapeHtml(file.sourceUrl)}">${escapeHtml(new URL(file.sourceUrl).pathname)}</a>`
+                : file.sourceUrl && isFileUrl(file.sourceUrl)
+                    ? `<span title="${escapeHtml(file.sourceUrl)}">${escapeHtml(fileURLToPath(file.sourceUrl))}</span>`
+                    : '<em>generated from description</em>'}</td>
+          </tr>`)).join('') + planned.mcpServers.map((server) => `
+          <tr class="${server.action}">
+            <td><span class="action ${server.action}">${actionLabels[server.action]}</span>${server.missingValues.length > 0
+                ? ` <span class="codicon codicon-key" title="You will be asked for ${escapeHtml(server.missingValues.join(', '))}"></span>`
+                : ''}</td>
+            <td class="path" title="${escapeHtml(server.configPath)}">${escapeHtml(vscode.workspace.asRelativePath(server.configPath))} › ${escapeHtml(server.key)}</td>
+            <td>mcpServers › ${escapeHtml(server.name)}</td>
+            <td class="size"></td>
+            <td class="source"><em>MCP server (${escapeHtml(String(server.config.type ?? 'stdio'))})</em></td>
+          </tr>`).join('');
+
+        const revision = planned.commit ? ` @ ${escapeHtml(planned.commit.slice(0, 7))}` : '';
+        return `
+      <h2><span class="codicon codicon-package"></span> ${escapeHtml(planned.plugin.name)}${revision}</h2>
+      ${rows ? `<table>
+        <thead><tr><th>Action</th><th>Path</th><th>Item</th><th>Size</th><th>Source</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>` : '<p class="empty">Nothing to install for this plugin.</p>'}`;
+    }).join('');
+}
+
+function createInstallPreviewHtml(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, plan: InstallPlan): string {
+    const nonce = getNonce();
+    const codiconCss = panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'dist', 'codicon.css'));
+    const elementsScript = panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'dist', 'vscode-elements.js'));
+    const counts = countActions(plan);
+    const locallyModified = countLocallyModified(plan);
+    const hookCount = plan.plugins.reduce((sum, planned) => sum + planned.items.filter((item) => item.group === HOOKS_GROUP_KEY).length, 0);
+    const skipped = plan.skippedGroups.map((entry) =>
+        `<li>${escapeHtml(entry.plugin)} › ${escapeHtml(entry.group)} (${entry.itemCount}): ${escapeHtml(entry.reason)}</li>`
+    ).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${panel.webview.cspSource} 'unsafe-inline'; font-src ${panel.webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Install Preview</title>
+  <link nonce="${nonce}" rel="stylesheet" href="${codiconCss}" id="vscode-codicon-stylesheet">
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      padding: 20px;
+      margin: 0;
+    }
+    .summary {
+      display: flex;
+      gap: 16px;
+      align-items: center;
+      flex-wrap: wrap;
+      padding-bottom: 16px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+    }
+    .summary .target { opacity: 0.8; }
+    .actions { margin-left: auto; display: flex; gap: 8px; }
+    h2 {
+      font-size: 15px;
+      font-weight: 600;
+      margin: 24px 0 8px 0;
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    th { font-weight: 600; opacity: 0.8; }
+    td.path { font-family: var(--vscode-editor-font-family); word-break: break-all; }
+    td.size { white-space: nowrap; text-align: right; }
+    td.source a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+    tr.unchanged { opacity: 0.6; }
+    .action {
+      display: inline-block;
+      padding: 1px 8px;
+      border-radius: 10px;
+      font-size: 11px;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
+    .action.overwrite {
+      background: var(--vscode-inputValidation-warningBackground);
+      color: var(--vscode-foreground);
+    }
+    .hooks {
+      margin-top: 16px;
+      padding: 12px 16px;
+      border-left: 3px solid var(--vscode-editorError-foreground);
+      background: var(--vscode-inputValidation-errorBackground);
+    }
+    .skipped {
+      margin-top: 24px;
+      padding: 12px 16px;
+      border-left: 3px solid var(--vscode-editorWarning-foreground);
+      background: var(--vscode-editor-inactiveSelectionBackground);
+    }
+    .empty { font-style: italic; opacity: 0.6; }
+  </style>
+</head>
+<body>
+  <div class="summary">
+    <span><strong>${counts.create}</strong> to create</span>
+    <span><strong>${counts.overwrite}</strong> to overwrite</span>
+    <span><strong>${counts.unchanged}</strong> unchanged</span>
+    ${locallyModified > 0 ? `<span><span class="codicon codicon-edit"></span> <strong>${locallyModified}</strong> changed locally</span>` : ''}
+    <span class="target">${escapeHtml(plan.payload.scope)} scope: ${escapeHtml(plan.payload.targetPath)}</span>
+    <div class="actions">
+      <vscode-button id="cancelButton" appearance="secondary">Cancel</vscode-button>
+      <vscode-button id="installButton">Install</vscode-button>
+    </div>
+  </div>
+  ${hookCount > 0 ? `<div class="hooks"><span class="codicon codicon-warning"></span> <strong>${hookCount} hook(s)</strong> will be installed. Hooks run shell commands automatically whenever their event fires; review their files below before installing.</div>` : ''}
+  ${renderPlanRows(plan)}
+  ${skipped ? `<div class="skipped"><strong>Skipped groups</strong><ul>${skipped}</ul></div>` : ''}
+  <script nonce="${nonce}" type="module" src="${elementsScript}"></script>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const installButton = document.getElementById('installButton');
+    installButton.addEventListener('click', () => {
+      installButton.disabled = true;
+      vscode.postMessage({ type: 'install' });
+    });
+    document.getElementById('cancelButton').addEventListener('click', () => {
+      vscode.postMessage({ type: 'cancel' });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Show a computed install plan file by file. Choosing Install runs `onInstall` with that same plan and closes the preview.
+ */
+export function showInstallPreview(
+    services: ExtensionServices,
+    plan: InstallPlan,
+    onInstall: (plan: InstallPlan) => Promise<void>
+): void {
+    const panel = vscode.window.createWebviewPanel(
+        'vscode-agent-plugins.installPreview',
+        'Install Preview',
+        vscode.ViewColumn.One,
+        {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(services.context.extensionUri, 'dist')]
+        }
+    );
+
+    panel.iconPath = new vscode.ThemeIcon('checklist');
+    panel.webview.html = createInstallPreviewHtml(panel, services.context.extensionUri, plan);
+
+    const subscription = panel.webview.onDidReceiveMessage(async (message: InstallPreviewMessage) => {
+        if (message.type === 'install') {
+            panel.dispose();
+            await onInstall(plan);
+            return;
+        }
+
+        if (message.type === 'cancel') {
+            panel.dispose();
+        }
+    });
+    panel.onDidDispose(() => subscription.dispose());
+}
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ExtensionServices } from '../extension';
+import type { InstallScope } from './delegation';
+import {
+    getInstalledPlugins,
+    onDidChangeInstalledPlugins,
+    type InstalledItemRecord,
+    type InstalledPluginRecord
+} from './manifest';
+import { getPluginUpdate, onDidChangePluginUpdates } from './updates';
+
+interface ScopeNode {
+    type: 'scope';
+    scope: InstallScope;
+}
+
+/** A workspace folder of a multi-root workspace that plugins were installed into. */
+interface FolderNode {
+    type: 'folder';
+    targetPath: string;
+}
+
+export interface InstalledPluginNode {
+    type: 'installedPlugin';
+    record: InstalledPluginRecord;
+}
+
+export interface InstalledItemNode {
+    type: 'installedItem';
+    record: InstalledPluginRecord;
+    item: InstalledItemRecord;
+}
+
+export type InstalledTreeNode = ScopeNode | FolderNode | InstalledPluginNode | InstalledItemNode;
+
+const groupIconMap: Record<string, string> = {
+    skills: 'tools',
+    agents: 'account',
+    prompts: 'comment-discussion',
+    commands: 'terminal-cmd',
+    workflows: 'git-merge',
+    mcpServers: 'server',
+    hooks: 'zap'
+};
+
+async function pathExists(targetPath: string): Promise<boolean> {
+    try {
+        await fs.access(targetPath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Resolve the file that best represents an installed item: the agent file itself, the MCP configuration
+ * of a server, or the SKILL.md (falling back to the first recorded file) of a skill folder.
+ */
+export function primaryFileForItem(item: InstalledItemRecord): string | undefined {
+    if (item.mcpServer || item.files.includes(item.path)) {
+        return item.path;
+    }
+
+    const descriptor = item.files.find((file) => path.basename(file).toLowerCase() === 'skill.md');
+    return descriptor ?? item.files[0];
+}
+
+export class InstalledTreeDataProvider implements vscode.TreeDataProvider<InstalledTreeNode> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<InstalledTreeNode | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private readonly services: ExtensionServices) { }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: InstalledTreeNode): vscode.TreeItem | Thenable<vscode.TreeItem> {
+        switch (element.type) {
+            case 'scope':
+                return this.createScopeItem(element);
+            case 'folder':
+                return this.createFolderItem(element);
+            case 'installedPlugin':
+                return this.createPluginItem(element);
+            case 'installedItem':
+                return this.createItemItem(element);
+        }
+    }
+
+    getChildren(element?: InstalledTreeNode): InstalledTreeNode[] {
+        if (!element) {
+            const scopes: InstallScope[] = ['workspace', 'user'];
+            return scopes
+                .filter((scope) => getInstalledPlugins(this.services.context, scope).length > 0)
+                .map((scope) => ({ type: 'scope' as const, scope }));
+        }
+
+        switch (element.type) {
+            case 'scope':
+                if (element.scope === 'workspace' && (vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+                    const targetPaths = new Set(getInstalledPlugins(this.services.context, 'workspace').map((record) => record.targetPath));
+                    return Array.from(targetPaths)
+                        .sort((left, right) => left.localeCompare(right))
+                        .map((targetPath) => ({ type: 'folder' as const, targetPath }));
+                }
+                return this.createPluginNodes(element.scope);
+            case 'folder':
+                return this.createPluginNodes('workspace', element.targetPath);
+            case 'installedPlugin':
+                return element.record.items.map((item) => ({
+                    type: 'installedItem' as const,
+                    record: element.record,
+                    item
+                }));
+            case 'installedItem':
+                return [];
+        }
+    }
+
+    private createPluginNodes(scope: InstallScope, targetPath?: string): InstalledPluginNode[] {
+        return getInstalledPlugins(this.services.context, scope, targetPath)
+            .slice()
+            .sort((left, right) => left.name.localeCompare(right.name))
+            .map((record) => ({ type: 'installedPlugin' as const, record }));
+    }
+
+    private createFolderItem(node: FolderNode): vscode.TreeItem {
+        const count = getInstalledPlugins(this.services.context, 'workspace', node.targetPath).length;
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(node.targetPath));
+        const isOpen = workspaceFolder?.uri.fsPath === node.targetPath;
+        const item = new vscode.TreeItem(isOpen ? workspaceFolder.name : path.basename(node.targetPath), vscode.TreeItemCollapsibleState.Expanded);
+        item.iconPath = new vscode.ThemeIcon(isOpen ? 'root-folder' : 'warning');
+        item.description = isOpen ? `${count} plugin(s)` : `${count} plugin(s) • folder not in workspace`;
+        item.tooltip = node.targetPath;
+        item.contextValue = 'installedFolder';
+        return item;
+    }
+
+    private createScopeItem(node: ScopeNode): vscode.TreeItem {
+        const count = getInstalledPlugins(this.services.context, node.scope).length;
+        const label = node.scope === 'workspace' ? 'Workspace' : 'User';
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Expanded);
+        item.iconPath = new vscode.ThemeIcon(node.scope === 'workspace' ? 'folder' : 'account');
+        item.description = `${count} plugin(s)`;
+        item.contextValue = 'installedScope';
+        return item;
+    }
+
+    private createPluginItem(node: InstalledPluginNode): vscode.TreeItem {
+        const record = node.record;
+        const update = getPluginUpdate(record.id, record.sourceUrl, record.scope, record.targetPath);
+        const item = new vscode.TreeItem(record.name, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = update
+            ? new vscode.ThemeIcon('package', new vscode.ThemeColor('charts.blue'))
+            : new vscode.ThemeIcon('package');
+        item.description = update
+            ? `${record.version ?? ''} → ${update.plugin.version ?? 'latest'} • Update available`
+            : record.version ?? '';
+        item.contextValue = 'installedPlugin';
+        item.tooltip = new vscode.MarkdownString();
+        item.tooltip.appendMarkdown(`**${record.name}**\n\n`);
+        item.tooltip.appendMarkdown(`- **ID:** ${record.id}\n`);
+        item.tooltip.appendMarkdown(`- **Version:** ${record.version ?? 'unknown'}\n`);
+        if (record.commit) {
+            item.tooltip.appendMarkdown(`- **Commit:** ${record.commit.slice(0, 7)}\n`);
+        }
+        item.tooltip.appendMarkdown(`- **Items:** ${record.items.length}\n`);
+        item.tooltip.appendMarkdown(`- **Installed:** ${new Date(record.installedAt).toLocaleString()}\n`);
+        item.tooltip.appendMarkdown(`- **Target:** ${record.targetPath}\n`);
+        item.tooltip.appendMarkdown(`- **Source:** ${record.sourceUrl}`);
+        return item;
+    }
+
+    private async createItemItem(node: InstalledItemNode): Promise<vscode.TreeItem> {
+        const installed = node.item;
+        const exists = await pathExists(installed.path);
+        const item = new vscode.TreeItem(installed.name, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = exists
+            ? new vscode.ThemeIcon(groupIconMap[installed.group] ?? 'file')
+            : new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        item.description = exists ? vscode.workspace.asRelativePath(installed.path) : 'missing on disk';
+        item.resourceUri = vscode.Uri.file(installed.path);
+        item.contextValue = 'installedItem';
+        item.tooltip = new vscode.MarkdownString();
+        item.tooltip.appendMarkdown(`**${installed.name}** (${installed.group})\n\n`);
+        item.tooltip.appendMarkdown(`- **Path:** ${installed.path}\n`);
+        item.tooltip.appendMarkdown(installed.mcpServer
+            ? `- **MCP server:** ${installed.mcpServer}`
+            : `- **Files:** ${installed.files.length}`);
+
+        const primaryFile = primaryFileForItem(installed);
+        if (exists && primaryFile) {
+            item.command = {
+                command: 'vscode-agent-plugins.openInstalledItem',
+                title: 'Open',
+                arguments: [node]
+            };
+        }
+
+        return item;
+    }
+}
+
+export function createInstalledTreeView(services: ExtensionServices): {
+    treeView: vscode.TreeView<InstalledTreeNode>;
+    provider: InstalledTreeDataProvider;
+} {
+    const provider = new InstalledTreeDataProvider(services);
+    const treeView = vscode.window.createTreeView('vscode-agent-plugins.installedExplorer', {
+        treeDataProvider: provider,
+        showCollapseAll: true
+    });
+
+    services.context.subscriptions.push(
+        onDidChangeInstalledPlugins(() => provider.refresh()),
+        onDidChangePluginUpdates(() => provider.refresh()),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => provider.refresh())
+    );
+
+    return { treeView, provider };
+}
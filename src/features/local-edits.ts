@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import type { InstallScope } from './delegation';
+import { getLogger } from './logger';
+import { getInstalledPlugins } from './manifest';
+import { sha256Hex } from './utils';
+
+const PRISTINE_FOLDER = 'pristine';
+const MERGE_FOLDER = 'merge';
+// Internal command without a stability guarantee; its argument shape has changed before, so it is checked and logged
+const MERGE_EDITOR_COMMAND = '_open.mergeEditor';
+
+export interface LocalEditMerge {
+    /** Installed file holding the local edits; the merge result is written back to it. */
+    targetPath: string;
+    /** SHA-256 (hex) of the file as it was installed, used to find the common ancestor. */
+    installedHash: string;
+    /** Content the update would have written. */
+    incoming: Buffer;
+    /** Label for the incoming side, such as the plugin name. */
+    incomingTitle: string;
+}
+
+function getStorageRoot(context: vscode.ExtensionContext, scope: InstallScope): vscode.Uri | undefined {
+    return scope === 'workspace' ? context.storageUri : context.globalStorageUri;
+}
+
+async function uriExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Keep a copy of every installed file, addressed by its SHA-256, so a later update can offer a three-way merge
+ * against the version that was installed. Copies are best effort; without one the merge falls back to a two-way diff.
+ */
+export async function storePristineCopies(
+    context: vscode.ExtensionContext,
+    scope: InstallScope,
+    contents: Buffer[]
+): Promise<void> {
+    const root = getStorageRoot(context, scope);
+    if (!root) {
+        return;
+    }
+
+    try {
+        const folder = vscode.Uri.joinPath(root, PRISTINE_FOLDER);
+        await vscode.workspace.fs.createDirectory(folder);
+        for (const content of contents) {
+            const uri = vscode.Uri.joinPath(folder, sha256Hex(content));
+            if (!(await uriExists(uri))) {
+                await vscode.workspace.fs.writeFile(uri, content);
+            }
+        }
+    } catch (error) {
+        getLogger()?.warn(`Failed to keep pristine copies of installed files: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Delete pristine copies that no installed file of the scope refers to anymore.
+ */
+export async function prunePristineCopies(context: vscode.ExtensionContext, scope: InstallScope): Promise<void> {
+    const root = getStorageRoot(context, scope);
+    if (!root) {
+        return;
+    }
+
+    const referenced = new Set(getInstalledPlugins(context, scope).flatMap((record) =>
+        record.items.flatMap((item) => Object.values(item.fileHashes ?? {}))
+    ));
+    const folder = vscode.Uri.joinPath(root, PRISTINE_FOLDER);
+    try {
+        for (const [name] of await vscode.workspace.fs.readDirectory(folder)) {
+            if (!referenced.has(name)) {
+                await vscode.workspace.fs.delete(vscode.Uri.joinPath(folder, name));
+            }
+        }
+    } catch (error) {
+        getLogger()?.trace(`Nothing to prune in ${folder.fsPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function hasMergeEditorCommand(): Promise<boolean> {
+    return (await vscode.commands.getCommands(false)).includes(MERGE_EDITOR_COMMAND);
+}
+
+/**
+ * Open VS Code's merge editor with the installed version as the base, the local file and the incoming update
+ * as the two sides, and the local file as the result. Without a pristine copy of the installed version,
+ * or when the merge editor cannot be opened, a diff of the incoming update against the local file is shown instead.
+ */
+export async function openThreeWayMerge(
+    context: vscode.ExtensionContext,
+    scope: InstallScope,
+    merge: LocalEditMerge
+): Promise<void> {
+    const output = vscode.Uri.file(merge.targetPath);
+    const fileName = path.basename(merge.targetPath);
+    const root = getStorageRoot(context, scope) ?? context.globalStorageUri;
+    const folder = vscode.Uri.joinPath(root, MERGE_FOLDER, sha256Hex(Buffer.from(merge.targetPath, 'utf8')).slice(0, 16));
+    await vscode.workspace.fs.createDirectory(folder);
+
+    const incoming = vscode.Uri.joinPath(folder, `incoming-${fileName}`);
+    await vscode.workspace.fs.writeFile(incoming, merge.incoming);
+
+    const base = vscode.Uri.joinPath(root, PRISTINE_FOLDER, merge.installedHash);
+    if (!(await uriExists(base))) {
+        getLogger()?.info(`No installed copy of ${merge.targetPath} to merge against; showing a diff.`);
+    } else if (!(await hasMergeEditorCommand())) {
+        getLogger()?.warn(`The ${MERGE_EDITOR_COMMAND} command is not available in this version of VS Code; showing a diff of ${merge.targetPath} instead.`);
+    } else {
+        // The merge editor writes its result to `output`, so the local side is a snapshot rather than the file itself
+        const local = vscode.Uri.joinPath(folder, `local-${fileName}`);
+        await vscode.workspace.fs.copy(output, local, { overwrite: true });
+        try {
+            await vscode.commands.executeCommand(MERGE_EDITOR_COMMAND, {
+                base,
+                input1: { uri: local, title: 'Local', description: 'Your changes' },
+                input2: { uri: incoming, title: 'Incoming', description: merge.incomingTitle },
+                output
+            });
+            getLogger()?.info(`Opened a three-way merge of ${merge.targetPath}.`);
+            return;
+        } catch (error) {
+            getLogger()?.warn(`${MERGE_EDITOR_COMMAND} failed, showing a diff instead: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    await vscode.commands.executeCommand('vscode.diff', incoming, output, `${fileName} (${merge.incomingTitle} ↔ Local)`);
+}
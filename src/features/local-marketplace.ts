@@ -0,0 +1,146 @@
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as fs from 'node:fs/promises';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as vscode from 'vscode';
+
+/** A file or folder of a local marketplace, shaped like an entry of the GitHub contents API. */
+export interface LocalContentEntry {
+    type: 'file' | 'dir';
+    name: string;
+    /** Path relative to the marketplace root, with forward slashes. */
+    path: string;
+}
+
+export function isFileUrl(value: string): boolean {
+    return /^file:\/\//i.test(value);
+}
+
+async function isDirectory(targetPath: string): Promise<boolean> {
+    try {
+        return (await fs.stat(targetPath)).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Turn a configured marketplace that lives on disk into a `file://` URL. Accepts `file://` URLs, absolute paths
+ * (including `~`) and paths relative to a workspace folder, preferring the first folder they exist in.
+ * Returns undefined for http(s) URLs and for relative paths when no folder is open.
+ */
+export async function resolveLocalMarketplaceUrl(value: string): Promise<string | undefined> {
+    const trimmed = value.trim();
+    if (isFileUrl(trimmed)) {
+        return trimmed;
+    }
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+        return undefined;
+    }
+
+    const expanded = /^~([/\\]|$)/.test(trimmed) ? path.join(os.homedir(), trimmed.slice(1)) : trimmed;
+    if (path.isAbsolute(expanded)) {
+        return pathToFileURL(expanded).href;
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    for (const folder of folders) {
+        const candidate = path.join(folder.uri.fsPath, expanded);
+        try {
+            await fs.access(candidate);
+            return pathToFileURL(candidate).href;
+        } catch {
+            continue;
+        }
+    }
+    return folders.length > 0 ? pathToFileURL(path.join(folders[0].uri.fsPath, expanded)).href : undefined;
+}
+
+/**
+ * Marketplace documents to try for a local location: the file itself, or the conventional
+ * `marketplace.json` locations inside a folder.
+ */
+export async function localMarketplaceCandidates(fileUrl: string): Promise<string[]> {
+    const location = fileURLToPath(fileUrl);
+    if (!(await isDirectory(location))) {
+        return [fileUrl];
+    }
+    return [
+        pathToFileURL(path.join(location, '.claude-plugin', 'marketplace.json')).href,
+        pathToFileURL(path.join(location, '.github', 'plugin', 'marketplace.json')).href,
+        pathToFileURL(path.join(location, 'marketplace.json')).href
+    ];
+}
+
+/**
+ * Root folder plugin sources are relative to for a marketplace document on disk: the folder holding
+ * `.claude-plugin/` or `.github/plugin/`, or else the document's own folder. Undefined for remote documents.
+ */
+export function getLocalMarketplaceRoot(documentUrl: string): string | undefined {
+    if (!isFileUrl(documentUrl)) {
+        return undefined;
+    }
+
+    const location = fileURLToPath(documentUrl);
+    if (!/\.json$/i.test(location)) {
+        return location;
+    }
+    const folder = path.dirname(location);
+    if (path.basename(folder) === '.claude-plugin') {
+        return path.dirname(folder);
+    }
+    if (path.basename(folder) === 'plugin' && path.basename(path.dirname(folder)) === '.github') {
+        return path.dirname(path.dirname(folder));
+    }
+    return folder;
+}
+
+/**
+ * Base `file://` URL that marketplace-relative paths are appended to, like a raw.githubusercontent.com base.
+ */
+export function toLocalBaseUrl(root: string): string {
+    return pathToFileURL(root).href.replace(/\/+$/, '');
+}
+
+/**
+ * List a path below a local marketplace root like the GitHub contents API: entries for a folder, a single entry
+ * for a file, and undefined when the path is missing or outside the root.
+ */
+export async function listLocalPath(root: string, relativePath: string): Promise<LocalContentEntry[] | LocalContentEntry | undefined> {
+    const normalized = relativePath.replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+    const target = path.resolve(root, ...normalized.split('/').filter(Boolean));
+    const relative = path.relative(root, target);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return undefined;
+    }
+
+    try {
+        const stat = await fs.stat(target);
+        if (stat.isFile()) {
+            return { type: 'file', name: path.basename(target), path: normalized };
+        }
+
+        const entries = await fs.readdir(target, { withFileTypes: true });
+        return entries
+            .filter((entry) => entry.isFile() || entry.isDirectory())
+            .map((entry) => ({
+                type: entry.isDirectory() ? 'dir' as const : 'file' as const,
+                name: entry.name,
+                path: normalized ? `${normalized}/${entry.name}` : entry.name
+            }));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Read a `file://` URL into a fetch `Response`, answering 404 when the file cannot be read,
+ * so local marketplaces go through the same code paths as remote ones.
+ */
+export async function fetchLocalFile(fileUrl: string): Promise<Response> {
+    try {
+        return new Response(await fs.readFile(fileURLToPath(fileUrl)));
+    } catch {
+        return new Response(null, { status: 404, statusText: 'Not Found' });
+    }
+}
@@ -0,0 +1,145 @@
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+import { getLogger } from './logger';
+import { installedPluginKey, type InstalledPluginRecord } from './manifest';
+import { sha256Hex } from './utils';
+
+export const LOCKFILE_NAME = 'agent-plugins.lock.json';
+
+export interface LockedItem {
+    group: string;
+    name: string;
+    sourcePath?: string;
+}
+
+export interface LockedPlugin {
+    marketplaceUrl: string;
+    pluginId: string;
+    name: string;
+    version?: string;
+    branch?: string;
+    commit?: string;
+    /** True when only `items` were installed rather than the whole plugin. */
+    partial?: boolean;
+    items: LockedItem[];
+    /** Workspace-relative file path mapped to its SHA-256 (hex). */
+    files: Record<string, string>;
+}
+
+export interface Lockfile {
+    lockfileVersion: 1;
+    plugins: LockedPlugin[];
+}
+
+function toPosixRelative(root: string, file: string): string {
+    return path.relative(root, file).replace(/\\/g, '/');
+}
+
+export function lockEntryFromRecord(record: InstalledPluginRecord): LockedPlugin {
+    const files: Record<string, string> = {};
+    for (const item of record.items) {
+        for (const [file, hash] of Object.entries(item.fileHashes ?? {})) {
+            files[toPosixRelative(record.targetPath, file)] = hash;
+        }
+    }
+
+    return {
+        marketplaceUrl: record.sourceUrl,
+        pluginId: record.id,
+        name: record.name,
+        version: record.version,
+        branch: record.branch,
+        commit: record.commit,
+        partial: record.partial || undefined,
+        items: record.items.map((item) => ({ group: item.group, name: item.name, sourcePath: item.sourcePath })),
+        files: Object.fromEntries(Object.entries(files).sort(([left], [right]) => left.localeCompare(right)))
+    };
+}
+
+export function lockedPluginKey(entry: LockedPlugin): string {
+    return installedPluginKey(entry.pluginId, entry.marketplaceUrl);
+}
+
+/**
+ * Read the workspace lockfile. Returns undefined when there is none, and throws when it exists but cannot be read
+ * or parsed, so a broken lockfile is fixed by hand rather than overwritten.
+ */
+export async function readLockfile(workspaceRoot: string): Promise<Lockfile | undefined> {
+    const lockPath = path.join(workspaceRoot, LOCKFILE_NAME);
+    let text: string;
+    try {
+        text = await fs.readFile(lockPath, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            getLogger()?.trace(`No lockfile at ${lockPath}.`);
+            return undefined;
+        }
+        throw new Error(`Could not read ${lockPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    let parsed: Partial<Lockfile>;
+    try {
+        parsed = JSON.parse(text) as Partial<Lockfile>;
+    } catch (error) {
+        throw new Error(`${lockPath} is not valid JSON (${error instanceof Error ? error.message : String(error)}). Fix ${LOCKFILE_NAME}, for example by resolving merge conflicts, and try again.`);
+    }
+    if (!parsed || !Array.isArray(parsed.plugins)) {
+        throw new Error(`${lockPath} has no "plugins" array. Fix ${LOCKFILE_NAME} and try again.`);
+    }
+    return { lockfileVersion: 1, plugins: parsed.plugins };
+}
+
+/**
+ * True when the lockfile records files at or below `targetPath` and every one of them is on disk with its locked hash,
+ * so restoring over it would only write back what is already there.
+ */
+export async function matchesLockedFiles(workspaceRoot: string, lockfile: Lockfile, targetPath: string): Promise<boolean> {
+    const locked = lockfile.plugins.flatMap((entry) => Object.entries(entry.files))
+        .map(([relativePath, hash]) => ({ file: path.join(workspaceRoot, relativePath), hash }))
+        .filter(({ file }) => file === targetPath || file.startsWith(`${targetPath}${path.sep}`));
+    if (locked.length === 0) {
+        return false;
+    }
+
+    for (const { file, hash } of locked) {
+        try {
+            if (sha256Hex(await fs.readFile(file)) !== hash) {
+                return false;
+            }
+        } catch {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Upsert and remove plugin entries in the workspace lockfile, leaving entries for other plugins untouched
+ * so a teammate's install never drops plugins it did not touch. Throws without writing when the lockfile is invalid.
+ */
+export async function updateLockfile(
+    workspaceRoot: string,
+    upserts: InstalledPluginRecord[],
+    removals: Array<{ id: string; sourceUrl: string }> = []
+): Promise<void> {
+    const existing = (await readLockfile(workspaceRoot))?.plugins ?? [];
+    const entries = new Map(existing.map((entry) => [lockedPluginKey(entry), entry]));
+
+    for (const removal of removals) {
+        entries.delete(installedPluginKey(removal.id, removal.sourceUrl));
+    }
+    for (const record of upserts) {
+        entries.set(installedPluginKey(record.id, record.sourceUrl), lockEntryFromRecord(record));
+    }
+
+    const lockPath = path.join(workspaceRoot, LOCKFILE_NAME);
+    if (entries.size === 0 && existing.length === 0) {
+        return;
+    }
+
+    const lockfile: Lockfile = {
+        lockfileVersion: 1,
+        plugins: Array.from(entries.values()).sort((left, right) => lockedPluginKey(left).localeCompare(lockedPluginKey(right)))
+    };
+    await fs.writeFile(lockPath, `${JSON.stringify(lockfile, undefined, 2)}\n`, 'utf8');
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import type { InstallScope } from './delegation';
+
+export interface InstalledItemRecord {
+    group: string;
+    name: string;
+    /** Root of the installed item: the skill folder or the agent file. */
+    path: string;
+    /** Path of the item inside the marketplace repository, when known. */
+    sourcePath?: string;
+    files: string[];
+    /** SHA-256 (hex) of each installed file at install time, keyed by absolute path. */
+    fileHashes?: Record<string, string>;
+    /** Key of an MCP server item in the MCP configuration file at `path`; such items install no files. */
+    mcpServer?: string;
+}
+
+export interface InstalledPluginRecord {
+    id: string;
+    name: string;
+    version?: string;
+    /** Branch or tag the commit was resolved from. */
+    branch?: string;
+    /** Commit SHA of the marketplace repository the plugin was installed from. */
+    commit?: string;
+    /** SHA-256 over every installed file, used to tell installs apart without re-reading them. */
+    contentHash?: string;
+    sourceUrl: string;
+    scope: InstallScope;
+    targetPath: string;
+    installedAt: string;
+    /** True when only selected items were installed rather than the whole plugin. */
+    partial?: boolean;
+    items: InstalledItemRecord[];
+}
+
+/** How an item whose install path was already taken gets installed. */
+export type ConflictResolution = 'skip' | 'overwrite' | 'namespace';
+
+// Event emitter for manifest updates (allows installed views to refresh after install/uninstall)
+const _onDidChangeInstalledPlugins = new vscode.EventEmitter<InstallScope>();
+export const onDidChangeInstalledPlugins = _onDidChangeInstalledPlugins.event;
+
+const MANIFEST_KEYS: Record<InstallScope, string> = {
+    workspace: 'installManifest.workspace',
+    user: 'installManifest.user'
+};
+
+const CONFLICT_RESOLUTION_KEYS: Record<InstallScope, string> = {
+    workspace: 'conflictResolutions.workspace',
+    user: 'conflictResolutions.user'
+};
+
+function getManifestStore(context: vscode.ExtensionContext, scope: InstallScope): vscode.Memento {
+    return scope === 'workspace' ? context.workspaceState : context.globalState;
+}
+
+function itemKey(item: InstalledItemRecord): string {
+    return `${item.group}::${item.name.toLowerCase()}`;
+}
+
+export function installedPluginKey(id: string, sourceUrl: string): string {
+    return `${id}::${sourceUrl}`;
+}
+
+// The same plugin can be installed into several folders of a multi-root workspace, so records are told apart by target too
+function recordKey(record: Pick<InstalledPluginRecord, 'id' | 'sourceUrl' | 'targetPath'>): string {
+    return `${installedPluginKey(record.id, record.sourceUrl)}::${record.targetPath}`;
+}
+
+/**
+ * Installed plugins of a scope, optionally only those installed into `targetPath`.
+ */
+export function getInstalledPlugins(
+    context: vscode.ExtensionContext,
+    scope: InstallScope,
+    targetPath?: string
+): InstalledPluginRecord[] {
+    const records = getManifestStore(context, scope).get<InstalledPluginRecord[]>(MANIFEST_KEYS[scope], []);
+    return targetPath ? records.filter((record) => record.targetPath === targetPath) : records;
+}
+
+export function findInstalledPlugin(
+    context: vscode.ExtensionContext,
+    scope: InstallScope,
+    id: string,
+    sourceUrl: string,
+    targetPath?: string
+): InstalledPluginRecord | undefined {
+    const key = installedPluginKey(id, sourceUrl);
+    return getInstalledPlugins(context, scope, targetPath).find((record) => installedPluginKey(record.id, record.sourceUrl) === key);
+}
+
+/**
+ * Merge freshly installed plugins into the manifest for a scope.
+ * Items installed earlier but not part of this install are kept, so partial installs accumulate.
+ */
+export async function recordInstalledPlugins(
+    context: vscode.ExtensionContext,
+    scope: InstallScope,
+    records: InstalledPluginRecord[]
+): Promise<void> {
+    const existing = new Map(getInstalledPlugins(context, scope).map((record) => [recordKey(record), record]));
+
+    for (const record of records) {
+        const key = recordKey(record);
+        const previous = existing.get(key);
+        const items = new Map((previous?.items ?? []).map((item) => [itemKey(item), item]));
+        for (const item of record.items) {
+            items.set(itemKey(item), item);
+        }
+
+        // A plugin stays partial only while every install of it was partial
+        const partial = Boolean(record.partial) && (!previous || Boolean(previous.partial));
+        existing.set(key, { ...record, partial, items: Array.from(items.values()) });
+    }
+
+    await getManifestStore(context, scope).update(MANIFEST_KEYS[scope], Array.from(existing.values()));
+    _onDidChangeInstalledPlugins.fire(scope);
+}
+
+export async function removeInstalledPlugin(
+    context: vscode.ExtensionContext,
+    scope: InstallScope,
+    id: string,
+    sourceUrl: string,
+    targetPath: string
+): Promise<void> {
+    const key = recordKey({ id, sourceUrl, targetPath });
+    const remaining = getInstalledPlugins(context, scope).filter((record) => recordKey(record) !== key);
+    await getManifestStore(context, scope).update(MANIFEST_KEYS[scope], remaining);
+    _onDidChangeInstalledPlugins.fire(scope);
+}
+
+/**
+ * Drop individual items from an installed plugin. The plugin itself is removed once no items remain.
+ */
+export async function removeInstalledItems(
+    context: vscode.ExtensionContext,
+    record: InstalledPluginRecord,
+    items: InstalledItemRecord[]
+): Promise<void> {
+    const removedKeys = new Set(items.map(itemKey));
+    const current = findInstalledPlugin(context, record.scope, record.id, record.sourceUrl, record.targetPath);
+    const remainingItems = (current?.items ?? []).filter((item) => !removedKeys.has(itemKey(item)));
+    if (remainingItems.length === 0) {
+        await removeInstalledPlugin(context, record.scope, record.id, record.sourceUrl, record.targetPath);
+        return;
+    }
+
+    const key = recordKey(record);
+    const updated = getInstalledPlugins(context, record.scope).map((entry) =>
+        recordKey(entry) === key ? { ...entry, items: remainingItems } : entry
+    );
+    await getManifestStore(context, record.scope).update(MANIFEST_KEYS[record.scope], updated);
+    _onDidChangeInstalledPlugins.fire(record.scope);
+}
+
+export function conflictResolutionKey(id: string, sourceUrl: string, group: string, name: string): string {
+    return `${installedPluginKey(id, sourceUrl)}::${group}::${name.toLowerCase()}`;
+}
+
+export function getConflictResolutions(
+    context: vscode.ExtensionContext,
+    scope: InstallScope
+): Record<string, ConflictResolution> {
+    return getManifestStore(context, scope).get<Record<string, ConflictResolution>>(CONFLICT_RESOLUTION_KEYS[scope], {});
+}
+
+/**
+ * Remember how install conflicts were resolved so later updates of the same items land in the same place.
+ */
+export async function recordConflictResolutions(
+    context: vscode.ExtensionContext,
+    scope: InstallScope,
+    resolutions: Map<string, ConflictResolution>
+): Promise<void> {
+    if (resolutions.size === 0) {
+        return;
+    }
+
+    const merged = { ...getConflictResolutions(context, scope), ...Object.fromEntries(resolutions) };
+    await getManifestStore(context, scope).update(CONFLICT_RESOLUTION_KEYS[scope], merged);
+}
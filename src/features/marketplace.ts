@@ -1,6 +1,16 @@
 import { fetchWithGitHubAuth } from './github-auth';
 import { getLogger } from './logger';
 import { getCache, CacheKeys, MarketplaceCache } from './cache';
+import { getMarketplaceRefs } from './config';
+import {
+	fetchLocalFile,
+	getLocalMarketplaceRoot,
+	isFileUrl,
+	listLocalPath,
+	localMarketplaceCandidates,
+	resolveLocalMarketplaceUrl,
+	toLocalBaseUrl
+} from './local-marketplace';
 import * as vscode from 'vscode';
 
 // Event emitter for cache updates (allows UI to refresh when background fetch completes)
@@ -13,12 +23,33 @@ export interface MarketplacePlugin {
 	description?: string;
 	version?: string;
 	downloadUrl?: string;
+	/** Expected digest (`sha256-...`) of the `downloadUrl` archive. */
+	integrity?: string;
+	/** Expected digests of individual files, keyed by their path in the marketplace repository or archive. */
+	fileIntegrity?: Record<string, string>;
 	groups: MarketplacePluginGroup[];
 	sourceUrl: string;
 	marketplaceDocumentUrl: string;
+	/** Branch of the marketplace repository the plugin was read from; undefined for non-GitHub marketplaces. */
+	branch?: string;
+	/** Repository the plugin's files come from when its `source` points outside the marketplace repository. */
+	sourceRepo?: PluginSourceRepo;
 	raw: Record<string, unknown>;
 }
 
+/**
+ * A GitHub repository named by a marketplace entry's `source` object, such as
+ * `{ "source": "github", "repo": "owner/name", "ref": "v1" }` or `{ "source": "url", "url": "https://github.com/owner/name.git" }`.
+ */
+export interface PluginSourceRepo {
+	owner: string;
+	repo: string;
+	/** Tag, branch or commit to read; the repository's default branch once hydrated when not given. */
+	ref?: string;
+	/** Folder of the plugin inside the repository; the repository root when omitted. */
+	path?: string;
+}
+
 export interface MarketplacePluginGroup {
 	name: string;
 	key: string;
@@ -32,6 +63,43 @@ export interface MarketplaceGroupItem {
 	metadataFallbackUrls: string[];
 	docUrl?: string;
 	description?: string;
+	/** Expected digest of the item's file, or of each file keyed by its path inside the item folder. */
+	integrity?: string | Record<string, string>;
+	/** Server definition of an item in the MCP servers group. */
+	mcpServer?: McpServerDefinition;
+	/** Hook definition of an item in the hooks group. */
+	hook?: HookDefinition;
+}
+
+export interface McpServerDefinition {
+	/** Server entry as declared by the plugin, in `.mcp.json` (Claude) or `mcp.json` (VS Code) form. */
+	config: Record<string, unknown>;
+	/** VS Code `inputs` declared next to the servers, for `${input:...}` references. */
+	inputs?: Record<string, unknown>[];
+}
+
+/** Group key for MCP servers, which install into an MCP configuration file rather than as files. */
+export const MCP_SERVERS_GROUP_KEY = 'mcpServers';
+
+export interface HookDefinition {
+	/** Hook event, such as `PreToolUse`. */
+	event: string;
+	/** Matcher entries of the event, each listing the hooks it runs. */
+	matchers: Record<string, unknown>[];
+	/** File the hooks were read from, when they were not declared inline. */
+	sourceUrl?: string;
+}
+
+/** Group key for hooks, one item per hook event. Hooks run shell commands, so installing them is always confirmed. */
+export const HOOKS_GROUP_KEY = 'hooks';
+
+/**
+ * Shell commands a hook runs, in declaration order.
+ */
+export function getHookCommands(hook: HookDefinition): string[] {
+	return hook.matchers.flatMap((matcher) => Array.isArray(matcher.hooks) ? matcher.hooks : [])
+		.map((entry) => asRecord(entry))
+		.flatMap((entry) => entry && typeof entry.command === 'string' ? [entry.command] : []);
 }
 
 export interface MarketplaceFetchResult {
@@ -46,6 +114,8 @@ interface RepoContext {
 	branch: string;
 	rawBaseUrl: string;
 	blobBaseUrl: string;
+	/** Folder of a marketplace on disk; its base URLs are `file://` URLs and it has no owner or branch. */
+	localRoot?: string;
 }
 
 interface RepoContentEntry {
@@ -77,11 +147,33 @@ function normalizeRelativePath(value: string): string {
 	return value.replace(/^\.\//, '').replace(/^\//, '');
 }
 
+function asIntegrity(value: unknown): string | Record<string, string> | undefined {
+	const single = asString(value);
+	if (single) {
+		return single;
+	}
+
+	const record = asRecord(value);
+	if (!record) {
+		return undefined;
+	}
+
+	const entries = Object.entries(record)
+		.map(([key, entry]) => [normalizeRelativePath(key), asString(entry)] as const)
+		.filter((entry): entry is readonly [string, string] => Boolean(entry[1]));
+	return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
 function isHttpUrl(value: string): boolean {
 	return /^https?:\/\//i.test(value);
 }
 
-function candidateMarketplaceUrls(inputUrl: string): string[] {
+/**
+ * Marketplace document URLs to try for a configured URL. For a GitHub repository URL, the conventional
+ * locations are tried on `defaultBranch`, or on `main` and then `master` when the default branch is unknown.
+ * A `ref` the marketplace is pinned to replaces any branch of a GitHub URL.
+ */
+function candidateMarketplaceUrls(inputUrl: string, defaultBranch?: string, ref?: string): string[] {
 	const candidates = new Set<string>();
 
 	try {
@@ -92,22 +184,36 @@ function candidateMarketplaceUrls(inputUrl: string): string[] {
 			return Array.from(candidates);
 		}
 
+		if (hostname === 'raw.githubusercontent.com' && ref) {
+			const parts = parsed.pathname.split('/').filter(Boolean);
+			if (parts.length >= 4) {
+				candidates.add(`https://raw.githubusercontent.com/${parts[0]}/${parts[1]}/${ref}/${parts.slice(3).join('/')}`);
+				return Array.from(candidates);
+			}
+		}
+
 		if (hostname === 'github.com' || hostname === 'www.github.com') {
 			const parts = parsed.pathname.split('/').filter(Boolean);
 			if (parts.length >= 2) {
 				const owner = parts[0];
 				const repo = parts[1].replace(/\.git$/i, '');
 				if (parts.length >= 5 && parts[2] === 'blob') {
-					const branch = parts[3];
+					const branch = ref ?? parts[3];
 					const remainder = parts.slice(4).join('/');
 					candidates.add(`https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${remainder}`);
 					return Array.from(candidates);
 				} else {
+					const branches = ref
+						? [ref]
+						: parts.length >= 4 && parts[2] === 'tree'
+							? [parts[3]]
+							: defaultBranch ? [defaultBranch] : ['main', 'master'];
 					// Try .claude-plugin first, then fall back to .github/plugin
-					candidates.add(`https://raw.githubusercontent.com/${owner}/${repo}/main/.claude-plugin/marketplace.json`);
-					candidates.add(`https://raw.githubusercontent.com/${owner}/${repo}/master/.claude-plugin/marketplace.json`);
-					candidates.add(`https://raw.githubusercontent.com/${owner}/${repo}/main/.github/plugin/marketplace.json`);
-					candidates.add(`https://raw.githubusercontent.com/${owner}/${repo}/master/.github/plugin/marketplace.json`);
+					for (const folder of ['.claude-plugin', '.github/plugin']) {
+						for (const branch of branches) {
+							candidates.add(`https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${folder}/marketplace.json`);
+						}
+					}
 					return Array.from(candidates);
 				}
 			}
@@ -146,15 +252,79 @@ function isGitHubUrl(url: string): boolean {
  * Falls back to regular fetch for non-GitHub URLs.
  */
 async function authenticatedFetch(url: string, options: RequestInit = {}): Promise<Response> {
+	if (isFileUrl(url)) {
+		return fetchLocalFile(url);
+	}
 	if (isGitHubUrl(url)) {
 		return fetchWithGitHubAuth(url, options);
 	}
 	return fetch(url, options);
 }
 
-async function resolveMarketplaceUrl(inputUrl: string): Promise<{ documentUrl?: string; warnings: string[]; errors: string[] }> {
+/**
+ * Owner and repository of a github.com repository URL, ignoring any `/tree/<branch>` or `/blob/...` suffix.
+ */
+function parseGitHubRepoUrl(url: string): { owner: string; repo: string; pinned: boolean } | undefined {
+	try {
+		const parsed = new URL(url);
+		const hostname = parsed.hostname.toLowerCase();
+		const parts = parsed.pathname.split('/').filter(Boolean);
+		if ((hostname !== 'github.com' && hostname !== 'www.github.com') || parts.length < 2) {
+			return undefined;
+		}
+		return { owner: parts[0], repo: parts[1].replace(/\.git$/i, ''), pinned: parts.length >= 4 && (parts[2] === 'tree' || parts[2] === 'blob') };
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Look up a repository's default branch with the GitHub repository API. The result is cached; when the API cannot
+ * be reached (e.g. when rate limited) a previously cached branch is used, if any.
+ */
+async function fetchDefaultBranch(owner: string, repo: string): Promise<string | undefined> {
+	const cache = getCache();
+	const cacheKey = CacheKeys.defaultBranch(owner, repo);
+	const cached = cache?.get<string>(cacheKey);
+	if (cached?.isFresh) {
+		return cached.data;
+	}
+
+	const url = `https://api.github.com/repos/${owner}/${repo}`;
+	try {
+		const response = await authenticatedFetch(url, {
+			headers: {
+				'User-Agent': 'vscode-agent-plugins',
+				'Accept': 'application/vnd.github+json'
+			}
+		});
+		if (response.ok) {
+			const branch = asString(asRecord(await response.json())?.default_branch);
+			if (branch) {
+				cache?.set(cacheKey, branch);
+				return branch;
+			}
+		}
+		getLogger()?.trace(`GitHub API returned ${response.status} ${response.statusText} for ${url}`);
+	} catch (error) {
+		getLogger()?.trace(`Failed to look up the default branch of ${owner}/${repo}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	return cached?.data;
+}
+
+/**
+ * Find the marketplace document a configured URL points at by trying its candidate locations in order.
+ */
+export async function resolveMarketplaceUrl(inputUrl: string, ref?: string): Promise<{ documentUrl?: string; warnings: string[]; errors: string[] }> {
 	const warnings: string[] = [];
-	const candidates = candidateMarketplaceUrls(inputUrl);
+	const localUrl = await resolveLocalMarketplaceUrl(inputUrl);
+	const gitHubRepo = localUrl ? undefined : parseGitHubRepoUrl(inputUrl);
+	const needsDefaultBranch = gitHubRepo && !gitHubRepo.pinned && !ref;
+	const defaultBranch = needsDefaultBranch ? await fetchDefaultBranch(gitHubRepo.owner, gitHubRepo.repo) : undefined;
+	if (needsDefaultBranch && !defaultBranch) {
+		getLogger()?.warn(`Could not look up the default branch of ${gitHubRepo.owner}/${gitHubRepo.repo}; trying main and master.`);
+	}
+	const candidates = localUrl ? await localMarketplaceCandidates(localUrl) : candidateMarketplaceUrls(inputUrl, defaultBranch, ref);
 
 	for (const candidate of candidates) {
 		try {
@@ -176,15 +346,33 @@ async function resolveMarketplaceUrl(inputUrl: string): Promise<{ documentUrl?:
 	};
 }
 
+function repoContextFromLocalRoot(localRoot: string): RepoContext {
+	const baseUrl = toLocalBaseUrl(localRoot);
+	return {
+		owner: '',
+		repo: localRoot.split(/[\\/]/).filter(Boolean).pop() ?? 'marketplace',
+		branch: '',
+		rawBaseUrl: baseUrl,
+		blobBaseUrl: baseUrl,
+		localRoot
+	};
+}
+
 function repoContextFromDocumentUrl(documentUrl: string): RepoContext | undefined {
+	const localRoot = getLocalMarketplaceRoot(documentUrl);
+	if (localRoot) {
+		return repoContextFromLocalRoot(localRoot);
+	}
+
 	const match = /^https:\/\/raw\.githubusercontent\.com\/([^/]+)\/([^/]+)\/([^/]+)\//i.exec(documentUrl);
 	if (!match) {
 		return undefined;
 	}
 
-	const owner = match[1];
-	const repo = match[2];
-	const branch = match[3];
+	return gitHubRepoContext(match[1], match[2], match[3]);
+}
+
+function gitHubRepoContext(owner: string, repo: string, branch: string): RepoContext {
 	return {
 		owner,
 		repo,
@@ -195,10 +383,10 @@ function repoContextFromDocumentUrl(documentUrl: string): RepoContext | undefine
 }
 
 /**
- * Parse a GitHub repository URL (e.g., https://github.com/owner/repo) into a RepoContext.
- * Attempts to detect the default branch by checking main first, then master.
+ * Parse a GitHub repository URL (e.g., https://github.com/owner/repo) into a RepoContext on `ref`, or else on the
+ * repository's default branch. Only when the default branch cannot be looked up are main and then master tried.
  */
-async function repoContextFromGitHubUrl(url: string): Promise<RepoContext | undefined> {
+async function repoContextFromGitHubUrl(url: string, ref?: string): Promise<RepoContext | undefined> {
 	try {
 		const parsed = new URL(url);
 		const hostname = parsed.hostname.toLowerCase();
@@ -214,19 +402,20 @@ async function repoContextFromGitHubUrl(url: string): Promise<RepoContext | unde
 		const owner = parts[0];
 		const repo = parts[1].replace(/\.git$/i, '');
 
+		if (ref) {
+			return gitHubRepoContext(owner, repo, ref);
+		}
+
 		// If URL includes a branch (e.g., /tree/{branch}), use it
 		if (parts.length >= 4 && parts[2] === 'tree') {
-			const branch = parts[3];
-			return {
-				owner,
-				repo,
-				branch,
-				rawBaseUrl: `https://raw.githubusercontent.com/${owner}/${repo}/${branch}`,
-				blobBaseUrl: `https://github.com/${owner}/${repo}/blob/${branch}`
-			};
+			return gitHubRepoContext(owner, repo, parts[3]);
+		}
+
+		const defaultBranch = await fetchDefaultBranch(owner, repo);
+		if (defaultBranch) {
+			return gitHubRepoContext(owner, repo, defaultBranch);
 		}
 
-		// Otherwise, detect the default branch by trying main first, then master
 		for (const branch of ['main', 'master']) {
 			try {
 				const testUrl = `https://api.github.com/repos/${owner}/${repo}/contents?ref=${branch}`;
@@ -237,13 +426,7 @@ async function repoContextFromGitHubUrl(url: string): Promise<RepoContext | unde
 					}
 				});
 				if (response.ok) {
-					return {
-						owner,
-						repo,
-						branch,
-						rawBaseUrl: `https://raw.githubusercontent.com/${owner}/${repo}/${branch}`,
-						blobBaseUrl: `https://github.com/${owner}/${repo}/blob/${branch}`
-					};
+					return gitHubRepoContext(owner, repo, branch);
 				}
 			} catch {
 				continue;
@@ -251,13 +434,7 @@ async function repoContextFromGitHubUrl(url: string): Promise<RepoContext | unde
 		}
 
 		// Fall back to main
-		return {
-			owner,
-			repo,
-			branch: 'main',
-			rawBaseUrl: `https://raw.githubusercontent.com/${owner}/${repo}/main`,
-			blobBaseUrl: `https://github.com/${owner}/${repo}/blob/main`
-		};
+		return gitHubRepoContext(owner, repo, 'main');
 	} catch {
 		return undefined;
 	}
@@ -303,14 +480,16 @@ async function discoverPluginFromRepo(
 		};
 	}
 
+	const repoName = repoContext.owner ? `${repoContext.owner}/${repoContext.repo}` : repoContext.repo;
 	const syntheticPlugin: MarketplacePlugin = {
-		id: `${repoContext.owner}/${repoContext.repo}`,
+		id: repoName,
 		name: repoContext.repo,
-		description: `Auto-discovered from ${repoContext.owner}/${repoContext.repo}`,
+		description: `Auto-discovered from ${repoName}`,
 		version: 'auto-discovered',
 		groups: discoveredGroups,
 		sourceUrl,
 		marketplaceDocumentUrl: sourceUrl,
+		branch: repoContext.branch || undefined,
 		raw: { source: './' }
 	};
 
@@ -332,6 +511,11 @@ function encodePath(pathValue: string): string {
 }
 
 async function listRepoDirectory(repoContext: RepoContext, relativePath: string): Promise<RepoContentEntry[] | undefined> {
+	if (repoContext.localRoot) {
+		const listing = await listLocalPath(repoContext.localRoot, relativePath);
+		return Array.isArray(listing) ? listing : undefined;
+	}
+
 	const cache = getCache();
 	const cacheKey = CacheKeys.repoDirectory(repoContext.owner, repoContext.repo, repoContext.branch, relativePath);
 
@@ -520,7 +704,8 @@ function buildGroupItem(entry: unknown, groupKey: string, repoContext?: RepoCont
 		return {
 			...base,
 			name: summaryFromRecord(record) ?? base.name,
-			description: asString(record.description) ?? base.description
+			description: asString(record.description) ?? base.description,
+			integrity: asIntegrity(record.integrity)
 		};
 	}
 
@@ -532,7 +717,8 @@ function buildGroupItem(entry: unknown, groupKey: string, repoContext?: RepoCont
 	return {
 		name,
 		metadataFallbackUrls: [],
-		description: asString(record.description)
+		description: asString(record.description),
+		integrity: asIntegrity(record.integrity)
 	};
 }
 
@@ -577,6 +763,114 @@ function mergeGroupItems(primary: MarketplaceGroupItem[], secondary: Marketplace
 	return Array.from(deduped.values());
 }
 
+function describeMcpServer(config: UnknownRecord): string | undefined {
+	const url = asString(config.url);
+	if (url) {
+		return url;
+	}
+
+	const command = asString(config.command);
+	if (!command) {
+		return undefined;
+	}
+	const args = Array.isArray(config.args) ? config.args.filter((arg): arg is string => typeof arg === 'string') : [];
+	return [command, ...args].join(' ');
+}
+
+function toMcpServerItems(servers: unknown, inputs?: unknown): MarketplaceGroupItem[] {
+	const record = asRecord(servers);
+	if (!record) {
+		return [];
+	}
+
+	const declaredInputs = Array.isArray(inputs)
+		? inputs.map(asRecord).filter((input): input is UnknownRecord => Boolean(input))
+		: [];
+	const items: MarketplaceGroupItem[] = [];
+	for (const [name, entry] of Object.entries(record)) {
+		const config = asRecord(entry);
+		if (config) {
+			items.push({
+				name,
+				description: describeMcpServer(config),
+				metadataFallbackUrls: [],
+				mcpServer: { config, inputs: declaredInputs.length > 0 ? declaredInputs : undefined }
+			});
+		}
+	}
+	return items;
+}
+
+/**
+ * Read the servers of an MCP configuration document: `{ mcpServers }` as in `.mcp.json`, or `{ servers, inputs }` as in `mcp.json`.
+ */
+function mcpServersFromDocument(document: unknown): MarketplaceGroupItem[] {
+	const record = asRecord(document);
+	return record ? toMcpServerItems(record.mcpServers ?? record.servers, record.inputs) : [];
+}
+
+function toHookItems(hooks: unknown, sourceUrl?: string): MarketplaceGroupItem[] {
+	const record = asRecord(hooks);
+	if (!record) {
+		return [];
+	}
+
+	// `{ hooks: { Event: [...] } }` as in hooks.json, or the event map itself
+	const events = asRecord(record.hooks) ?? record;
+	const items: MarketplaceGroupItem[] = [];
+	for (const [event, value] of Object.entries(events)) {
+		const matchers = Array.isArray(value) ? value.map(asRecord).filter((entry): entry is UnknownRecord => Boolean(entry)) : [];
+		if (matchers.length === 0) {
+			continue;
+		}
+
+		const hook: HookDefinition = { event, matchers, sourceUrl };
+		items.push({
+			name: event,
+			description: getHookCommands(hook).join('; ') || undefined,
+			metadataFallbackUrls: [],
+			hook
+		});
+	}
+	return items;
+}
+
+/**
+ * Resolve a JSON declaration of a plugin config: an inline object, or a path to a JSON file relative to the plugin.
+ * Without a declaration, `defaultPath` is tried and silently ignored when missing.
+ */
+async function resolveJsonDeclaration(
+	value: unknown,
+	defaultPath: string,
+	repoContext: RepoContext,
+	sourceBasePath?: string
+): Promise<{ document: unknown; url?: string; inline: boolean } | undefined> {
+	if (asRecord(value)) {
+		return { document: value, inline: true };
+	}
+
+	const declaredPath = asString(value);
+	if (typeof value !== 'undefined' && !declaredPath) {
+		return undefined;
+	}
+
+	const relativePath = normalizeRelativePath(declaredPath ?? defaultPath);
+	const url = isHttpUrl(relativePath)
+		? relativePath
+		: `${repoContext.rawBaseUrl}/${sourceBasePath ? `${sourceBasePath}/` : ''}${relativePath}`;
+	try {
+		const response = await authenticatedFetch(url);
+		if (!response.ok) {
+			getLogger()?.trace(`${url} => ${response.status}`);
+			return undefined;
+		}
+		return { document: await response.json(), url, inline: false };
+	} catch (err) {
+		getLogger()?.trace(`${url} => error: ${err}`);
+		return undefined;
+	}
+}
+
 function collectGroupValues(record: UnknownRecord, key: string, repoContext?: RepoContext, sourceBasePath?: string): MarketplaceGroupItem[] {
 	const manifest = asRecord(record.manifest);
 	const primary = toGroupItems(record[key], key, repoContext, sourceBasePath);
@@ -606,6 +900,15 @@ function extractPluginGroups(record: UnknownRecord, repoContext?: RepoContext, s
 		}
 	}
 
+	const mcpServers = toMcpServerItems(record.mcpServers ?? asRecord(record.manifest)?.mcpServers);
+	if (mcpServers.length > 0) {
+		groups.push({ name: 'MCP Servers', key: MCP_SERVERS_GROUP_KEY, items: mcpServers });
+	}
+	const hooks = toHookItems(record.hooks ?? asRecord(record.manifest)?.hooks);
+	if (hooks.length > 0) {
+		groups.push({ name: 'Hooks', key: HOOKS_GROUP_KEY, items: hooks });
+	}
+
 	return groups;
 }
 
@@ -692,7 +995,8 @@ async function resolveGroupItemsFromConfig(
 						items.push({
 							...base,
 							name: summaryFromRecord(record) ?? base.name,
-							description: asString(record.description) ?? base.description
+							description: asString(record.description) ?? base.description,
+							integrity: asIntegrity(record.integrity)
 						});
 					} else {
 						const name = summaryFromRecord(record);
@@ -700,7 +1004,8 @@ async function resolveGroupItemsFromConfig(
 							items.push({
 								name,
 								metadataFallbackUrls: [],
-								description: asString(record.description)
+								description: asString(record.description),
+								integrity: asIntegrity(record.integrity)
 							});
 						}
 					}
@@ -713,18 +1018,37 @@ async function resolveGroupItemsFromConfig(
 	return toGroupItems(value, groupKey, repoContext);
 }
 
+/**
+ * Repository context of a plugin's external source, on its ref or else the repository's default branch.
+ */
+async function repoContextFromPluginSource(sourceRepo: PluginSourceRepo): Promise<RepoContext> {
+	const ref = sourceRepo.ref ?? await fetchDefaultBranch(sourceRepo.owner, sourceRepo.repo) ?? 'HEAD';
+	return gitHubRepoContext(sourceRepo.owner, sourceRepo.repo, ref);
+}
+
 async function hydratePluginGroupsFromSource(
-	plugin: MarketplacePlugin,
-	repoContext?: RepoContext
+	marketplacePlugin: MarketplacePlugin,
+	marketplaceContext?: RepoContext
 ): Promise<MarketplacePlugin> {
-	getLogger()?.trace(`hydratePluginGroupsFromSource: plugin="${plugin.name}", groups.length=${plugin.groups.length}, hasRepoContext=${!!repoContext}, source="${plugin.raw.source}"`);
+	const { sourceRepo } = marketplacePlugin;
+	const repoContext = sourceRepo ? await repoContextFromPluginSource(sourceRepo) : marketplaceContext;
+	// Remember the resolved ref so installs read the same revision that was browsed
+	const plugin = sourceRepo && repoContext ? { ...marketplacePlugin, sourceRepo: { ...sourceRepo, ref: repoContext.branch } } : marketplacePlugin;
+	getLogger()?.trace(`hydratePluginGroupsFromSource: plugin="${plugin.name}", groups.length=${plugin.groups.length}, hasRepoContext=${!!repoContext}, source=${JSON.stringify(plugin.raw.source)}`);
 
 	if (!repoContext || plugin.groups.length > 0) {
 		getLogger()?.trace(`Skipping hydration: repoContext=${!!repoContext}, groups.length=${plugin.groups.length}`);
 		return plugin;
 	}
 
-	const source = asString(plugin.raw.source) ?? './';
+	const source = sourceRepo ? sourceRepo.path ?? './' : asString(plugin.raw.source) ?? './';
+	if (sourceRepo) {
+		// Items listed in the marketplace entry are relative to the external plugin folder
+		const listedGroups = extractPluginGroups(plugin.raw, repoContext, normalizeRelativePath(source).replace(/\/+$/, ''));
+		if (listedGroups.length > 0) {
+			return { ...plugin, groups: listedGroups };
+		}
+	}
 	const sourceConfig = await fetchPluginSourceConfig(source, repoContext);
 
 	// Source base path for resolving relative paths within the plugin
@@ -781,6 +1105,18 @@ async function hydratePluginGroupsFromSource(
 		}
 	}
 
+	const mcpDeclaration = await resolveJsonDeclaration(sourceConfig?.mcpServers ?? manifest?.mcpServers, '.mcp.json', repoContext, sourceBasePath);
+	const mcpServers = mcpDeclaration?.inline ? toMcpServerItems(mcpDeclaration.document) : mcpServersFromDocument(mcpDeclaration?.document);
+	if (mcpServers.length > 0) {
+		hydratedGroups.push({ name: 'MCP Servers', key: MCP_SERVERS_GROUP_KEY, items: mcpServers });
+	}
+
+	const hooksDeclaration = await resolveJsonDeclaration(sourceConfig?.hooks ?? manifest?.hooks, 'hooks/hooks.json', repoContext, sourceBasePath);
+	const hooks = toHookItems(hooksDeclaration?.document, hooksDeclaration?.url);
+	if (hooks.length > 0) {
+		hydratedGroups.push({ name: 'Hooks', key: HOOKS_GROUP_KEY, items: hooks });
+	}
+
 	getLogger()?.trace(`hydratedGroups for "${plugin.name}": ${hydratedGroups.map(g => `${g.name}(${g.items.length})`).join(', ')}`);
 
 	if (hydratedGroups.length === 0) {
@@ -814,6 +1150,53 @@ function getPluginList(document: unknown): unknown[] {
 	return [];
 }
 
+/**
+ * Read an external `source` object of a marketplace entry. Returns an error message for sources
+ * that cannot be browsed, and undefined for relative path sources inside the marketplace repository.
+ */
+function parsePluginSource(value: unknown): { sourceRepo?: PluginSourceRepo; error?: string } | undefined {
+	const record = asRecord(value);
+	if (!record) {
+		return undefined;
+	}
+
+	const kind = asString(record.source);
+	const ref = asString(record.sha) ?? asString(record.ref);
+	const sourcePath = asString(record.path);
+	if (kind === 'github') {
+		const [owner, repo, ...rest] = (asString(record.repo) ?? '').split('/');
+		if (!owner || !repo || rest.length > 0) {
+			return { error: `expected "repo" as "owner/name" but found ${JSON.stringify(record.repo)}` };
+		}
+		return { sourceRepo: { owner, repo: repo.replace(/\.git$/i, ''), ref, path: sourcePath } };
+	}
+	if (kind === 'url' || kind === 'git') {
+		const url = asString(record.url) ?? '';
+		const match = /^(?:https?:\/\/(?:www\.)?github\.com\/|git@github\.com:)([^/]+)\/([^/#?]+?)(?:\.git)?\/?$/i.exec(url);
+		if (!match) {
+			return { error: `${url || 'the source URL'} is not a GitHub repository; only GitHub sources can be browsed and installed` };
+		}
+		return { sourceRepo: { owner: match[1], repo: match[2], ref, path: sourcePath } };
+	}
+	return { error: `source type ${JSON.stringify(record.source)} is not supported` };
+}
+
+/**
+ * Resolve a plugin's download URL against the marketplace document, so marketplaces served from a plain web server
+ * or folder can link archives relative to `marketplace.json`.
+ */
+function resolveDownloadUrl(downloadUrl: string | undefined, marketplaceDocumentUrl: string): string | undefined {
+	if (!downloadUrl) {
+		return undefined;
+	}
+	try {
+		return new URL(downloadUrl, marketplaceDocumentUrl).href;
+	} catch {
+		getLogger()?.warn(`Could not resolve download URL '${downloadUrl}' against ${marketplaceDocumentUrl}.`);
+		return downloadUrl;
+	}
+}
+
 function normalizePlugin(
 	entry: unknown,
 	sourceUrl: string,
@@ -837,11 +1220,23 @@ function normalizePlugin(
 		asString(record.latestVersion) ??
 		asString(asRecord(record.manifest)?.version) ??
 		'unknown';
-	const downloadUrl =
-		asString(record.downloadUrl) ?? asString(record.url) ?? asString(asRecord(record.package)?.url);
+	const downloadUrl = resolveDownloadUrl(
+		asString(record.downloadUrl) ?? asString(record.url) ?? asString(asRecord(record.package)?.url),
+		marketplaceDocumentUrl
+	);
 	const source = asString(record.source);
+	const externalSource = parsePluginSource(record.source);
 	const sourceBasePath = source ? normalizeRelativePath(source).replace(/\/+$/, '') : undefined;
-	const groups = extractPluginGroups(record, repoContext, sourceBasePath);
+	// Items of external plugins are resolved against their own repository once it is known, during hydration
+	const groups = externalSource ? [] : extractPluginGroups(record, repoContext, sourceBasePath);
+
+	// A string integrity covers the plugin archive; an object maps repository file paths to their digests
+	const pluginIntegrity = asIntegrity(record.integrity);
+	const integrity =
+		(typeof pluginIntegrity === 'string' ? pluginIntegrity : undefined) ??
+		asString(record.downloadIntegrity) ??
+		asString(asRecord(record.package)?.integrity);
+	const fileIntegrity = typeof pluginIntegrity === 'object' ? pluginIntegrity : undefined;
 
 	return {
 		plugin: {
@@ -850,11 +1245,16 @@ function normalizePlugin(
 			description,
 			version,
 			downloadUrl,
+			integrity,
+			fileIntegrity,
 			groups,
 			sourceUrl,
 			marketplaceDocumentUrl,
+			branch: repoContext?.branch || undefined,
+			sourceRepo: externalSource?.sourceRepo,
 			raw: record
-		}
+		},
+		warning: externalSource?.error ? `Plugin '${id}' has an unsupported source: ${externalSource.error}.` : undefined
 	};
 }
 
@@ -889,11 +1289,17 @@ export function normalizeMarketplaceDocument(
 	};
 }
 
-export async function fetchMarketplace(sourceUrl: string): Promise<MarketplaceFetchResult> {
-	const resolution = await resolveMarketplaceUrl(sourceUrl);
+/**
+ * Fetch and normalize one marketplace. `ref` pins a GitHub marketplace to a tag, branch or commit SHA;
+ * it is ignored for other marketplaces.
+ */
+export async function fetchMarketplace(sourceUrl: string, ref?: string): Promise<MarketplaceFetchResult> {
+	const resolution = await resolveMarketplaceUrl(sourceUrl, ref);
 	if (!resolution.documentUrl) {
-		// No marketplace.json found - try direct repo discovery for GitHub URLs
-		const repoContext = await repoContextFromGitHubUrl(sourceUrl);
+		// No marketplace.json found - try direct repo discovery for GitHub URLs and local folders
+		const localUrl = await resolveLocalMarketplaceUrl(sourceUrl);
+		const localRoot = localUrl ? getLocalMarketplaceRoot(localUrl) : undefined;
+		const repoContext = localRoot ? repoContextFromLocalRoot(localRoot) : await repoContextFromGitHubUrl(sourceUrl, ref);
 		if (repoContext) {
 			getLogger()?.info(`No marketplace.json found for ${sourceUrl}, attempting direct repo discovery`);
 			const discovered = await discoverPluginFromRepo(sourceUrl, repoContext);
@@ -927,10 +1333,17 @@ export async function fetchMarketplace(sourceUrl: string): Promise<MarketplaceFe
 		}
 
 		const json = (await response.json()) as unknown;
-		const repoContext = repoContextFromDocumentUrl(resolution.documentUrl);
+		const documentContext = repoContextFromDocumentUrl(resolution.documentUrl);
+		// The document URL holds only the first segment of refs such as `release/v1`
+		const repoContext = ref && documentContext && !documentContext.localRoot
+			? gitHubRepoContext(documentContext.owner, documentContext.repo, ref)
+			: documentContext;
 		const normalized = normalizeMarketplaceDocument(json, sourceUrl, resolution.documentUrl, repoContext);
+		if (ref && (!repoContext || repoContext.localRoot)) {
+			normalized.warnings.push(`Ignoring ref '${ref}' of ${sourceUrl}: only GitHub marketplaces can be pinned.`);
+		}
 
-		if (repoContext && normalized.plugins.length > 0) {
+		if (normalized.plugins.length > 0) {
 			const hydratedPlugins: MarketplacePlugin[] = [];
 			for (const plugin of normalized.plugins) {
 				hydratedPlugins.push(await hydratePluginGroupsFromSource(plugin, repoContext));
@@ -964,10 +1377,11 @@ async function fetchAllMarketplacesCore(
 	let completed = 0;
 	const total = urls.length;
 
+	const refs = getMarketplaceRefs();
 	const results = await Promise.allSettled(urls.map(async (url, index) => {
 		onProgress?.({ url, status: 'started', current: index + 1, total });
 		try {
-			const result = await fetchMarketplace(url);
+			const result = await fetchMarketplace(url, refs.get(url));
 			completed++;
 			onProgress?.({ url, status: 'completed', current: completed, total });
 			return result;
@@ -1000,6 +1414,13 @@ async function fetchAllMarketplacesCore(
 	return aggregate;
 }
 
+/**
+ * Cache key of a set of marketplaces, including the refs they are pinned to so that changing a ref refetches.
+ */
+export function allMarketplacesCacheKey(urls: string[], refs: Map<string, string> = getMarketplaceRefs()): string {
+	return CacheKeys.allMarketplaces(urls.map((url) => refs.has(url) ? `${url}@${refs.get(url)}` : url));
+}
+
 export interface FetchProgressEvent {
 	url: string;
 	status: 'started' | 'completed' | 'failed';
@@ -1021,7 +1442,7 @@ export async function fetchAllMarketplaces(
 	options?: FetchAllMarketplacesOptions
 ): Promise<MarketplaceFetchResult & { fromCache?: boolean; refreshing?: boolean }> {
 	const cache = getCache();
-	const cacheKey = CacheKeys.allMarketplaces(urls);
+	const cacheKey = allMarketplacesCacheKey(urls);
 
 	if (!cache) {
 		// No cache available, fetch directly
@@ -1073,7 +1494,7 @@ export function prefetchMarketplaces(urls: string[]): void {
 		return;
 	}
 
-	const cacheKey = CacheKeys.allMarketplaces(urls);
+	const cacheKey = allMarketplacesCacheKey(urls);
 	const cached = cache.get<MarketplaceFetchResult>(cacheKey);
 
 	if (!cached) {
@@ -1165,6 +1586,18 @@ export async function fetchGroupItemDescription(item: MarketplaceGroupItem): Pro
 }
 
 export async function fetchGroupItemContent(item: MarketplaceGroupItem): Promise<{ content?: string; url?: string }> {
+	if (item.mcpServer) {
+		return { content: `\`\`\`json\n${JSON.stringify({ [item.name]: item.mcpServer.config }, undefined, 2)}\n\`\`\`\n` };
+	}
+	if (item.hook) {
+		const commands = getHookCommands(item.hook).map((command) => `- \`${command}\``).join('\n');
+		return {
+			content: `**Warning:** this hook runs the shell commands below automatically on \`${item.hook.event}\` events.\n\n${commands}\n\n`
+				+ `\`\`\`json\n${JSON.stringify({ hooks: { [item.hook.event]: item.hook.matchers } }, undefined, 2)}\n\`\`\`\n`,
+			url: item.hook.sourceUrl
+		};
+	}
+
 	const urls = [item.metadataUrl, ...item.metadataFallbackUrls].filter((entry): entry is string => Boolean(entry));
 	for (const url of urls) {
 		try {
@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+import { applyEdits, modify, parse, printParseErrorCode, type JSONPath, type ParseError } from 'jsonc-parser';
+import type { InstallScope, PlannedFileAction } from './delegation';
+import type { McpServerDefinition } from './marketplace';
+import { getLogger } from './logger';
+
+type UnknownRecord = Record<string, unknown>;
+
+/** An MCP server a plan adds to (or updates in) an MCP configuration file. */
+export interface PlannedMcpServer {
+    /** Server name as declared by the plugin. */
+    name: string;
+    /** Key the server is written under; differs from `name` when namespaced as `<plugin>-<name>`. */
+    key: string;
+    configPath: string;
+    /** Server entry in VS Code's `mcp.json` form. */
+    config: UnknownRecord;
+    /** Inputs the entry refers to through `${input:...}`. */
+    inputs: UnknownRecord[];
+    /** Environment variables without a value or default, asked for before the config is written. */
+    missingValues: string[];
+    action: PlannedFileAction;
+}
+
+/** A value one or more servers need that the environment does not provide. */
+export interface McpValuePrompt {
+    variable: string;
+    servers: string[];
+}
+
+interface McpConfig {
+    servers: UnknownRecord;
+    inputs: UnknownRecord[];
+    [key: string]: unknown;
+}
+
+// `${VAR}` and `${VAR:-default}` as used by `.mcp.json`. Only upper-case names are matched,
+// which leaves VS Code variables such as `${workspaceFolder}` or `${input:token}` alone.
+const ENV_PLACEHOLDER = /\$\{([A-Z_][A-Z0-9_]*)(?::-([^}]*))?\}/g;
+const SECRET_NAME = /(^|_)(API_?KEY|KEY|TOKEN|SECRET|PASSWORD|PAT|CREDENTIALS?)(_|$)/;
+// Claude resolves this to the plugin's install folder; VS Code has no equivalent
+const PLUGIN_ROOT_VARIABLE = 'CLAUDE_PLUGIN_ROOT';
+
+function asRecord(value: unknown): UnknownRecord | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as UnknownRecord : undefined;
+}
+
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+    if (typeof value === 'string') {
+        return map(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map((entry) => mapStrings(entry, map));
+    }
+    const record = asRecord(value);
+    return record
+        ? Object.fromEntries(Object.entries(record).map(([key, entry]) => [key, mapStrings(entry, map)]))
+        : value;
+}
+
+/** An MCP server of a user-scope install, handed to VS Code's own MCP configuration instead of being written. */
+export type UserMcpServer = Pick<PlannedMcpServer, 'name' | 'key' | 'config' | 'inputs'>;
+
+/** Why the MCP servers of a user-scope install are not written by the install itself. */
+export const USER_MCP_SERVERS_HANDED_OFF =
+    'User MCP servers are added through VS Code\'s own MCP configuration; choose "Add MCP Servers" to copy their entries into your user mcp.json.';
+
+// "MCP: Open User Configuration" opens the user mcp.json of whichever profile the window uses
+const OPEN_USER_MCP_CONFIG_COMMAND = 'workbench.mcp.openUserMcpJson';
+// "MCP: Add Server"
+const ADD_MCP_SERVER_COMMAND = 'workbench.mcp.addConfiguration';
+
+/**
+ * MCP configuration file the install writes servers to: `.vscode/mcp.json` of the workspace folder. Undefined for
+ * user scope, since the user `mcp.json` belongs to a profile extensions cannot look up; see `handOffUserMcpServers`.
+ */
+export function getMcpConfigPath(scope: InstallScope, targetPath: string): string | undefined {
+    return scope === 'workspace' ? path.join(targetPath, '.vscode', 'mcp.json') : undefined;
+}
+
+/**
+ * The `servers` and `inputs` of user MCP servers in `mcp.json` form, ready to be merged into a user `mcp.json`.
+ */
+export function createUserMcpSnippet(servers: UserMcpServer[]): string {
+    const inputs: UnknownRecord[] = [];
+    for (const input of servers.flatMap((server) => server.inputs)) {
+        if (!inputs.some((existing) => existing.id === input.id)) {
+            inputs.push(input);
+        }
+    }
+    const snippet = {
+        servers: Object.fromEntries(servers.map((server) => [server.key, server.config])),
+        ...(inputs.length > 0 ? { inputs } : {})
+    };
+    return `${JSON.stringify(snippet, undefined, '\t')}\n`;
+}
+
+/**
+ * Copy the entries of user MCP servers to the clipboard and open the user `mcp.json` of the active profile through
+ * VS Code, or "MCP: Add Server" when this version of VS Code cannot open that file.
+ */
+export async function handOffUserMcpServers(servers: UserMcpServer[]): Promise<void> {
+    await vscode.env.clipboard.writeText(createUserMcpSnippet(servers));
+    const command = (await vscode.commands.getCommands(false)).includes(OPEN_USER_MCP_CONFIG_COMMAND)
+        ? OPEN_USER_MCP_CONFIG_COMMAND
+        : ADD_MCP_SERVER_COMMAND;
+    getLogger()?.info(`Copied ${servers.length} user MCP server(s) to the clipboard; running ${command}.`);
+    await vscode.commands.executeCommand(command);
+}
+
+/**
+ * Convert a server definition to VS Code's form. Environment placeholders become `${env:VAR}` when the variable is set,
+ * fall back to their default, or become password inputs when they look like secrets. Anything else is reported as missing.
+ */
+export function normalizeMcpServer(
+    name: string,
+    definition: McpServerDefinition
+): Pick<PlannedMcpServer, 'config' | 'inputs' | 'missingValues'> {
+    const inputs = [...(definition.inputs ?? [])];
+    const missingValues = new Set<string>();
+    let referencesPluginRoot = false;
+
+    const config = mapStrings(definition.config, (text) => text.replace(ENV_PLACEHOLDER, (placeholder, variable: string, fallback?: string) => {
+        if (variable === PLUGIN_ROOT_VARIABLE) {
+            referencesPluginRoot = true;
+            return placeholder;
+        }
+        if (process.env[variable]) {
+            return `\${env:${variable}}`;
+        }
+        if (typeof fallback === 'string') {
+            return fallback;
+        }
+        if (SECRET_NAME.test(variable)) {
+            if (!inputs.some((input) => input.id === variable)) {
+                inputs.push({ type: 'promptString', id: variable, description: `${variable} for the ${name} MCP server`, password: true });
+            }
+            return `\${input:${variable}}`;
+        }
+        missingValues.add(variable);
+        return `\${${variable}}`;
+    })) as UnknownRecord;
+
+    if (!config.type) {
+        if (typeof config.command === 'string') {
+            config.type = 'stdio';
+        } else if (typeof config.url === 'string') {
+            config.type = 'http';
+        }
+    }
+    if (referencesPluginRoot) {
+        getLogger()?.warn(`MCP server '${name}' refers to \${${PLUGIN_ROOT_VARIABLE}}, which VS Code does not define; the server may fail to start.`);
+    }
+
+    return { config, inputs, missingValues: Array.from(missingValues) };
+}
+
+/**
+ * Put the values given for missing environment variables into a server entry. Variables without a value are left
+ * as placeholders.
+ */
+export function fillMcpValues(server: PlannedMcpServer, values: Map<string, string>): void {
+    server.config = mapStrings(server.config, (text) => text.replace(ENV_PLACEHOLDER, (placeholder, variable: string) =>
+        server.missingValues.includes(variable) && values.has(variable) ? values.get(variable) ?? '' : placeholder
+    )) as UnknownRecord;
+    server.missingValues = server.missingValues.filter((variable) => !values.has(variable));
+}
+
+async function readMcpConfigText(configPath: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(configPath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+async function readMcpConfig(configPath: string): Promise<McpConfig> {
+    const text = await readMcpConfigText(configPath);
+    if (!text?.trim()) {
+        return { servers: {}, inputs: [] };
+    }
+
+    // Parsed with the same JSONC rules as the edits made to it, comments and trailing commas included
+    const errors: ParseError[] = [];
+    const parsed: unknown = parse(text, errors, { allowTrailingComma: true });
+    if (errors.length > 0) {
+        throw new Error(`${configPath} is not valid JSON: ${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}.`);
+    }
+    const record = asRecord(parsed) ?? {};
+    return {
+        ...record,
+        servers: asRecord(record.servers) ?? {},
+        inputs: Array.isArray(record.inputs) ? record.inputs.filter((input): input is UnknownRecord => Boolean(asRecord(input))) : []
+    };
+}
+
+/**
+ * Whether an MCP configuration file already has a server under `key`.
+ */
+export async function hasMcpServer(configPath: string, key: string): Promise<boolean> {
+    try {
+        return key in (await readMcpConfig(configPath)).servers;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Compare a planned server with the configuration file to tell whether writing it creates, replaces or keeps the entry.
+ */
+export async function planMcpServerAction(server: Omit<PlannedMcpServer, 'action'>): Promise<PlannedFileAction> {
+    const existing = (await readMcpConfig(server.configPath)).servers[server.key];
+    if (existing === undefined) {
+        return 'create';
+    }
+    return JSON.stringify(existing) === JSON.stringify(server.config) ? 'unchanged' : 'overwrite';
+}
+
+/**
+ * Set (or, with `undefined`, remove) a value in the text of an MCP configuration file. Only the affected entry is
+ * rewritten, so the comments and formatting of the rest of the file are kept.
+ */
+function editMcpConfigText(text: string, jsonPath: JSONPath, value: unknown, isArrayInsertion = false): string {
+    return applyEdits(text, modify(text, jsonPath, value, {
+        isArrayInsertion,
+        formattingOptions: { insertSpaces: false, tabSize: 4, eol: text.includes('\r\n') ? '\r\n' : '\n' }
+    }));
+}
+
+async function writeMcpConfigText(configPath: string, text: string): Promise<void> {
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(configPath, text.endsWith('\n') ? text : `${text}\n`, 'utf8');
+}
+
+/**
+ * Merge servers and the inputs they use into their configuration files, keeping every other entry.
+ * Returns a function that puts the files back as they were, for rolling back a failed install.
+ */
+export async function writeMcpServers(servers: PlannedMcpServer[]): Promise<() => Promise<void>> {
+    const byConfig = new Map<string, PlannedMcpServer[]>();
+    for (const server of servers.filter((entry) => entry.action !== 'unchanged')) {
+        byConfig.set(server.configPath, [...(byConfig.get(server.configPath) ?? []), server]);
+    }
+
+    const originals = new Map<string, string | undefined>();
+    const restore = async (): Promise<void> => {
+        for (const [configPath, text] of originals) {
+            try {
+                if (text === undefined) {
+                    await fs.rm(configPath, { force: true });
+                } else {
+                    await fs.writeFile(configPath, text, 'utf8');
+                }
+            } catch (error) {
+                getLogger()?.error(`Failed to restore ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    };
+
+    try {
+        for (const [configPath, entries] of byConfig) {
+            const config = await readMcpConfig(configPath);
+            const original = await readMcpConfigText(configPath);
+            originals.set(configPath, original);
+            let text = original?.trim() ? original : '{}\n';
+            const hasInputs = Array.isArray(asRecord(parse(text))?.inputs);
+            const inputs: UnknownRecord[] = [];
+            for (const server of entries) {
+                text = editMcpConfigText(text, ['servers', server.key], server.config);
+                for (const input of server.inputs) {
+                    if (![...config.inputs, ...inputs].some((existing) => existing.id === input.id)) {
+                        inputs.push(input);
+                    }
+                }
+            }
+            if (hasInputs) {
+                for (const input of inputs) {
+                    text = editMcpConfigText(text, ['inputs', -1], input, true);
+                }
+            } else if (inputs.length > 0) {
+                text = editMcpConfigText(text, ['inputs'], inputs);
+            }
+            await writeMcpConfigText(configPath, text);
+            getLogger()?.info(`Wrote ${entries.length} MCP server(s) to ${configPath}.`);
+        }
+    } catch (error) {
+        await restore();
+        throw error;
+    }
+
+    return restore;
+}
+
+/**
+ * Remove servers from an MCP configuration file. Inputs are left in place since other servers may share them.
+ */
+export async function removeMcpServers(configPath: string, keys: string[]): Promise<void> {
+    let text = await readMcpConfigText(configPath);
+    if (!text) {
+        return;
+    }
+
+    const config = await readMcpConfig(configPath);
+    const present = keys.filter((key) => key in config.servers);
+    if (present.length === 0) {
+        return;
+    }
+    for (const key of present) {
+        text = editMcpConfigText(text, ['servers', key], undefined);
+    }
+    await writeMcpConfigText(configPath, text);
+}
@@ -0,0 +1,110 @@
+import type { InstallScope, PluginItemSelection } from './delegation';
+import { installedPluginKey, type InstalledPluginRecord } from './manifest';
+
+export interface PluginSetEntry {
+    id: string;
+    name: string;
+    version?: string;
+    /** Marketplace the plugin was installed from. */
+    sourceUrl: string;
+    scope: InstallScope;
+    /** Items to install when only part of the plugin was installed; omitted for whole-plugin installs. */
+    items?: PluginItemSelection[];
+}
+
+/**
+ * A portable list of installed plugins, shaped like an `InstallPayload` that spans both scopes
+ * and leaves the target folder to the machine it is imported on.
+ */
+export interface PluginSet {
+    version: 'v1';
+    exportedAt: string;
+    marketplaceUrls: string[];
+    plugins: PluginSetEntry[];
+}
+
+const SCOPES: InstallScope[] = ['workspace', 'user'];
+
+/**
+ * Build a plugin set from install records. A plugin installed into several workspace folders is listed once,
+ * with the items of every partial install combined.
+ */
+export function createPluginSet(records: InstalledPluginRecord[]): PluginSet {
+    const entries = new Map<string, PluginSetEntry>();
+    for (const record of records) {
+        const key = `${record.scope}::${installedPluginKey(record.id, record.sourceUrl)}`;
+        const previous = entries.get(key);
+        const items = record.partial ? record.items.map((item) => ({ group: item.group, name: item.name })) : undefined;
+        const mergedItems = previous && (!previous.items || !items)
+            ? undefined
+            : [...(previous?.items ?? []), ...(items ?? [])].filter((item, index, all) =>
+                all.findIndex((other) => other.group === item.group && other.name === item.name) === index);
+
+        entries.set(key, {
+            id: record.id,
+            name: record.name,
+            version: record.version,
+            sourceUrl: record.sourceUrl,
+            scope: record.scope,
+            items: mergedItems
+        });
+    }
+
+    const plugins = Array.from(entries.values());
+    return {
+        version: 'v1',
+        exportedAt: new Date().toISOString(),
+        marketplaceUrls: Array.from(new Set(plugins.map((plugin) => plugin.sourceUrl))),
+        plugins
+    };
+}
+
+/**
+ * Parse and validate an exported plugin set.
+ */
+export function parsePluginSet(text: string): PluginSet {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const record = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : undefined;
+    if (!record || record.version !== 'v1' || !Array.isArray(record.plugins)) {
+        throw new Error('The file is not an exported plugin set (expected "version": "v1" and a "plugins" array).');
+    }
+
+    const plugins = record.plugins.map((entry: unknown, index): PluginSetEntry => {
+        const plugin = entry && typeof entry === 'object' ? entry as Record<string, unknown> : {};
+        if (typeof plugin.id !== 'string' || typeof plugin.sourceUrl !== 'string') {
+            throw new Error(`Plugin ${index + 1} needs an "id" and a "sourceUrl".`);
+        }
+        if (!SCOPES.includes(plugin.scope as InstallScope)) {
+            throw new Error(`Plugin '${plugin.id}' has scope ${JSON.stringify(plugin.scope)}; expected "workspace" or "user".`);
+        }
+
+        const items = Array.isArray(plugin.items)
+            ? plugin.items.filter((item): item is PluginItemSelection =>
+                Boolean(item) && typeof item.group === 'string' && typeof item.name === 'string')
+            : undefined;
+        return {
+            id: plugin.id,
+            name: typeof plugin.name === 'string' ? plugin.name : plugin.id,
+            version: typeof plugin.version === 'string' ? plugin.version : undefined,
+            sourceUrl: plugin.sourceUrl,
+            scope: plugin.scope as InstallScope,
+            items: items?.length ? items : undefined
+        };
+    });
+
+    const listedUrls = Array.isArray(record.marketplaceUrls)
+        ? record.marketplaceUrls.filter((url): url is string => typeof url === 'string')
+        : [];
+    return {
+        version: 'v1',
+        exportedAt: typeof record.exportedAt === 'string' ? record.exportedAt : '',
+        marketplaceUrls: Array.from(new Set([...listedUrls, ...plugins.map((plugin) => plugin.sourceUrl)])),
+        plugins
+    };
+}
@@ -0,0 +1,145 @@
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+import * as vscode from 'vscode';
+import { parse, printParseErrorCode, type ParseError } from 'jsonc-parser';
+import type { PluginItemSelection } from './delegation';
+import { getLogger } from './logger';
+import { getInstalledPlugins, installedPluginKey, type InstalledPluginRecord } from './manifest';
+import type { MarketplacePlugin } from './marketplace';
+
+/** Checked-in list of the plugins a repository expects, relative to the workspace folder. */
+export const RECOMMENDATIONS_FILE = '.vscode/agent-plugins.json';
+
+export interface RecommendedPlugin {
+    /** Plugin id as listed by its marketplace. */
+    id: string;
+    /** Marketplace the plugin comes from; any recommended or configured marketplace when omitted. */
+    marketplace?: string;
+    /** Items to install when only part of the plugin is recommended. */
+    items?: PluginItemSelection[];
+}
+
+export interface PluginRecommendations {
+    marketplaces: string[];
+    plugins: RecommendedPlugin[];
+}
+
+function normalizeMarketplaceUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '').replace(/\.git$/i, '').toLowerCase();
+}
+
+/**
+ * Whether a marketplace URL refers to the same marketplace as a recommendation, ignoring trailing slashes and `.git`.
+ */
+export function isSameMarketplace(left: string, right: string): boolean {
+    return normalizeMarketplaceUrl(left) === normalizeMarketplaceUrl(right);
+}
+
+function toRecommendedPlugin(entry: unknown): RecommendedPlugin | undefined {
+    if (typeof entry === 'string') {
+        return entry.trim() ? { id: entry.trim() } : undefined;
+    }
+    if (!entry || typeof entry !== 'object') {
+        return undefined;
+    }
+
+    const record = entry as Record<string, unknown>;
+    if (typeof record.id !== 'string' || !record.id.trim()) {
+        return undefined;
+    }
+    const items = Array.isArray(record.items)
+        ? record.items.filter((item): item is PluginItemSelection =>
+            Boolean(item) && typeof item.group === 'string' && typeof item.name === 'string')
+        : undefined;
+    return {
+        id: record.id.trim(),
+        marketplace: typeof record.marketplace === 'string' ? record.marketplace : undefined,
+        items: items?.length ? items : undefined
+    };
+}
+
+/**
+ * Read the recommendations of a workspace folder. Plugins are listed by id, or as
+ * `{ "id", "marketplace", "items" }` objects to pin a marketplace or recommend only some items.
+ */
+export async function readRecommendations(workspaceRoot: string): Promise<PluginRecommendations | undefined> {
+    const filePath = path.join(workspaceRoot, ...RECOMMENDATIONS_FILE.split('/'));
+    let text: string;
+    try {
+        text = await fs.readFile(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+
+    const errors: ParseError[] = [];
+    const parsed = parse(text, errors, { allowTrailingComma: true }) as { marketplaces?: unknown; recommendations?: unknown } | undefined;
+    if (errors.length > 0 || !parsed || typeof parsed !== 'object') {
+        const reason = errors.length > 0 ? `${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}` : 'expected a JSON object';
+        getLogger()?.warn(`Ignoring ${filePath}: ${reason}.`);
+        return undefined;
+    }
+
+    const marketplaces = Array.isArray(parsed.marketplaces)
+        ? parsed.marketplaces.filter((url): url is string => typeof url === 'string' && Boolean(url.trim()))
+        : [];
+    const plugins = Array.isArray(parsed.recommendations)
+        ? parsed.recommendations.map(toRecommendedPlugin).filter((entry): entry is RecommendedPlugin => Boolean(entry))
+        : [];
+    return { marketplaces, plugins };
+}
+
+function satisfies(record: InstalledPluginRecord, recommendation: RecommendedPlugin): boolean {
+    if (record.id !== recommendation.id) {
+        return false;
+    }
+    if (recommendation.marketplace && !isSameMarketplace(record.sourceUrl, recommendation.marketplace)) {
+        return false;
+    }
+
+    const installed = new Set(record.items.map((item) => `${item.group}::${item.name.toLowerCase()}`));
+    const items = recommendation.items ?? [];
+    return !record.partial || (items.length > 0 && items.every((item) => installed.has(`${item.group}::${item.name.toLowerCase()}`)));
+}
+
+/**
+ * Recommended plugins that are neither installed into the workspace folder nor for the user.
+ * A partial install only counts when it has every recommended item.
+ */
+export function findMissingRecommendations(
+    context: vscode.ExtensionContext,
+    workspaceRoot: string,
+    recommendations: PluginRecommendations
+): RecommendedPlugin[] {
+    const installed = [
+        ...getInstalledPlugins(context, 'workspace', workspaceRoot),
+        ...getInstalledPlugins(context, 'user')
+    ];
+    return recommendations.plugins.filter((recommendation) => !installed.some((record) => satisfies(record, recommendation)));
+}
+
+/**
+ * Look up recommended plugins among the plugins of the available marketplaces, with the items to install for
+ * partial recommendations keyed by installed plugin key. Recommendations no marketplace lists are returned as `missing`.
+ */
+export function findRecommendedPlugins(
+    available: MarketplacePlugin[],
+    recommendations: RecommendedPlugin[]
+): { plugins: MarketplacePlugin[]; selections: Map<string, PluginItemSelection[]>; missing: string[] } {
+    const plugins: MarketplacePlugin[] = [];
+    const selections = new Map<string, PluginItemSelection[]>();
+    const missing: string[] = [];
+    for (const recommendation of recommendations) {
+        const plugin = available.find((candidate) => candidate.id === recommendation.id
+            && (!recommendation.marketplace || isSameMarketplace(candidate.sourceUrl, recommendation.marketplace)));
+        if (!plugin) {
+            missing.push(recommendation.id);
+            continue;
+        }
+
+        plugins.push(plugin);
+        if (recommendation.items) {
+            selections.set(installedPluginKey(plugin.id, plugin.sourceUrl), recommendation.items);
+        }
+    }
+    return { plugins, selections, missing };
+}
@@ -8,6 +8,7 @@ import {
     MarketplaceGroupItem
 } from './marketplace';
 import { getMarketplaceUrls } from './config';
+import { getPluginUpdate, refreshPluginUpdates } from './updates';
 
 export { MarketplacePlugin };
 
@@ -48,7 +49,9 @@ const groupIconMap: Record<string, string> = {
     commands: 'terminal-cmd',
     tools: 'wrench',
     prompts: 'comment-discussion',
-    workflows: 'git-merge'
+    workflows: 'git-merge',
+    mcpServers: 'server',
+    hooks: 'zap'
 };
 
 export class MarketplaceTreeDataProvider implements vscode.TreeDataProvider<TreeNode> {
@@ -173,6 +176,10 @@ export class MarketplaceTreeDataProvider implements vscode.TreeDataProvider<Tree
         }));
 
         this._onDidChangeTreeData.fire();
+
+        refreshPluginUpdates(this.services.context, result.plugins).catch((err) => {
+            this.services.logger.warn(`Failed to check for plugin updates: ${err}`);
+        });
     }
 
     getTreeItem(element: TreeNode): vscode.TreeItem {
@@ -243,7 +250,8 @@ export class MarketplaceTreeDataProvider implements vscode.TreeDataProvider<Tree
         item.description = `${node.plugins.length} plugin(s)`;
         // Use different contextValue for GitHub vs non-GitHub marketplaces
         item.contextValue = this.isGitHubUrl(node.url) ? 'marketplace-github' : 'marketplace';
-        item.tooltip = node.url;
+        const branch = node.plugins.find((plugin) => plugin.branch)?.branch;
+        item.tooltip = branch ? `${node.url}\nBranch: ${branch}` : node.url;
         return item;
     }
 
@@ -266,9 +274,13 @@ export class MarketplaceTreeDataProvider implements vscode.TreeDataProvider<Tree
             ? vscode.TreeItemCollapsibleState.Collapsed
             : vscode.TreeItemCollapsibleState.None;
 
+        const update = getPluginUpdate(plugin.id, plugin.sourceUrl);
+
         const item = new vscode.TreeItem(plugin.name, collapsible);
-        item.iconPath = new vscode.ThemeIcon('package');
-        item.description = plugin.version ?? '';
+        item.iconPath = update
+            ? new vscode.ThemeIcon('package', new vscode.ThemeColor('charts.blue'))
+            : new vscode.ThemeIcon('package');
+        item.description = update ? `${plugin.version ?? ''} • Update available` : plugin.version ?? '';
         item.contextValue = 'plugin';
         item.tooltip = new vscode.MarkdownString();
         item.tooltip.appendMarkdown(`**${plugin.name}**\n\n`);
@@ -278,6 +290,9 @@ export class MarketplaceTreeDataProvider implements vscode.TreeDataProvider<Tree
         item.tooltip.appendMarkdown(`- **ID:** ${plugin.id}\n`);
         item.tooltip.appendMarkdown(`- **Version:** ${plugin.version ?? 'unknown'}\n`);
         item.tooltip.appendMarkdown(`- **Items:** ${totalItems}\n`);
+        if (update) {
+            item.tooltip.appendMarkdown(`- **Installed:** ${update.record.version ?? 'unknown'} (${update.record.scope}) — update available\n`);
+        }
         item.tooltip.appendMarkdown(`- **Source:** ${plugin.sourceUrl}`);
         return item;
     }
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { fetchWithGitHubAuth } from './github-auth';
+import { getLogger } from './logger';
+import { getCache, CacheKeys } from './cache';
+import { getRepoContext, type InstallScope } from './delegation';
+import { getInstalledPlugins, installedPluginKey, type InstalledPluginRecord } from './manifest';
+import type { MarketplacePlugin } from './marketplace';
+
+export interface PluginUpdate {
+    plugin: MarketplacePlugin;
+    record: InstalledPluginRecord;
+    /** Whether the marketplace version changed or only the plugin's source files moved on. */
+    reason: 'version' | 'commit';
+}
+
+// Event emitter for update detection (allows tree views and the browser to show update badges)
+const _onDidChangePluginUpdates = new vscode.EventEmitter<void>();
+export const onDidChangePluginUpdates = _onDidChangePluginUpdates.event;
+
+let knownPlugins: MarketplacePlugin[] = [];
+let pendingUpdates: PluginUpdate[] = [];
+
+function isComparableVersion(version: string | undefined): version is string {
+    return Boolean(version) && version !== 'unknown' && version !== 'auto-discovered';
+}
+
+async function fetchChangedFiles(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+): Promise<string[] | undefined> {
+    const cache = getCache();
+    const cacheKey = CacheKeys.compare(owner, repo, base, head);
+    const cached = cache?.get<string[]>(cacheKey);
+    if (cached?.isFresh) {
+        return cached.data;
+    }
+
+    const url = `https://api.github.com/repos/${owner}/${repo}/compare/${base}...${encodeURIComponent(head)}`;
+    try {
+        const response = await fetchWithGitHubAuth(url, {
+            headers: {
+                'User-Agent': 'vscode-agent-plugins',
+                'Accept': 'application/vnd.github+json'
+            }
+        });
+        if (!response.ok) {
+            getLogger()?.trace(`GitHub API returned ${response.status} ${response.statusText} for ${url}`);
+            return undefined;
+        }
+
+        const payload = (await response.json()) as { files?: Array<{ filename?: string }> };
+        const files = (payload.files ?? [])
+            .map((file) => file.filename)
+            .filter((file): file is string => typeof file === 'string');
+        cache?.set(cacheKey, files);
+        return files;
+    } catch (error) {
+        getLogger()?.trace(`Failed to compare ${base}...${head}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+    }
+}
+
+/**
+ * Check whether any of the installed items' source paths changed between the installed commit and the branch head.
+ */
+async function hasSourceChangedSince(plugin: MarketplacePlugin, record: InstalledPluginRecord): Promise<boolean> {
+    const repoContext = getRepoContext(plugin);
+    const sourcePaths = record.items
+        .map((item) => item.sourcePath)
+        .filter((sourcePath): sourcePath is string => Boolean(sourcePath));
+    if (!repoContext || !record.commit || sourcePaths.length === 0) {
+        return false;
+    }
+
+    const changed = await fetchChangedFiles(repoContext.owner, repoContext.repo, record.commit, repoContext.branch);
+    if (!changed) {
+        return false;
+    }
+
+    return changed.some((file) =>
+        sourcePaths.some((sourcePath) => file === sourcePath || file.startsWith(`${sourcePath}/`))
+    );
+}
+
+async function detectUpdate(plugin: MarketplacePlugin, record: InstalledPluginRecord): Promise<PluginUpdate | undefined> {
+    if (isComparableVersion(plugin.version) && isComparableVersion(record.version)) {
+        return plugin.version !== record.version ? { plugin, record, reason: 'version' } : undefined;
+    }
+
+    return (await hasSourceChangedSince(plugin, record)) ? { plugin, record, reason: 'commit' } : undefined;
+}
+
+/**
+ * Compare installed plugins against the given marketplace plugins and remember which have updates.
+ * Calling without plugins re-checks against the last known marketplace data (e.g. after an install).
+ */
+export async function refreshPluginUpdates(
+    context: vscode.ExtensionContext,
+    plugins: MarketplacePlugin[] = knownPlugins
+): Promise<PluginUpdate[]> {
+    knownPlugins = plugins;
+    const scopes: InstallScope[] = ['workspace', 'user'];
+    const checks: Promise<PluginUpdate | undefined>[] = [];
+
+    const available = new Map(plugins.map((plugin) => [installedPluginKey(plugin.id, plugin.sourceUrl), plugin]));
+    for (const scope of scopes) {
+        // Check every record, since a plugin may be installed into several workspace folders
+        for (const record of getInstalledPlugins(context, scope)) {
+            const plugin = available.get(installedPluginKey(record.id, record.sourceUrl));
+            if (plugin) {
+                checks.push(detectUpdate(plugin, record));
+            }
+        }
+    }
+
+    pendingUpdates = (await Promise.all(checks)).filter((update): update is PluginUpdate => Boolean(update));
+    getLogger()?.trace(`Update check found ${pendingUpdates.length} plugin(s) with updates available.`);
+    _onDidChangePluginUpdates.fire();
+    return pendingUpdates;
+}
+
+export function getPluginUpdates(): PluginUpdate[] {
+    return pendingUpdates;
+}
+
+export function getPluginUpdate(
+    id: string,
+    sourceUrl: string,
+    scope?: InstallScope,
+    targetPath?: string
+): PluginUpdate | undefined {
+    const key = installedPluginKey(id, sourceUrl);
+    return pendingUpdates.find((update) =>
+        installedPluginKey(update.plugin.id, update.plugin.sourceUrl) === key
+        && (!scope || update.record.scope === scope)
+        && (!targetPath || update.record.targetPath === targetPath)
+    );
+}
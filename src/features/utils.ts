@@ -7,6 +7,13 @@ export function getNonce(): string {
     return crypto.randomBytes(16).toString('base64');
 }
 
+/**
+ * Compute a hex-encoded SHA-256 digest.
+ */
+export function sha256Hex(content: crypto.BinaryLike): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
 /**
  * Validates that a URL uses a safe protocol (http/https only).
  * Returns true if the URL is safe for use in href attributes.
@@ -31,3 +38,42 @@ export function escapeHtml(text: string): string {
         .replace(/"/g, '&quot;')
         .replace(/'/g, '&#39;');
 }
+
+const INTEGRITY_ALGORITHMS = new Set(['sha256', 'sha384', 'sha512']);
+
+/**
+ * Check content against an integrity string such as `sha256-<base64>` (the Subresource Integrity format).
+ * Hex digests are accepted as well. Returns the actual digest in the same algorithm for error messages.
+ */
+export function checkIntegrity(content: crypto.BinaryLike, integrity: string): { valid: boolean; actual: string } {
+    const match = /^(sha256|sha384|sha512)-(.+)$/i.exec(integrity.trim());
+    if (!match || !INTEGRITY_ALGORITHMS.has(match[1].toLowerCase())) {
+        throw new Error(`Unsupported integrity value '${integrity}'; expected sha256-, sha384- or sha512- followed by a digest.`);
+    }
+
+    const algorithm = match[1].toLowerCase();
+    const expected = match[2];
+    const digest = crypto.createHash(algorithm).update(content).digest();
+    const isHex = /^[0-9a-f]+$/i.test(expected) && expected.length === digest.length * 2;
+    const valid = isHex
+        ? digest.toString('hex') === expected.toLowerCase()
+        : digest.toString('base64') === expected;
+    return { valid, actual: `${algorithm}-${digest.toString('base64')}` };
+}
+
+/**
+ * Map items with at most `limit` calls of `fn` in flight, keeping the order of the results.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+import type { InstalledItemRecord } from './manifest';
+import { HOOKS_GROUP_KEY, MCP_SERVERS_GROUP_KEY } from './marketplace';
+
+export interface ItemProblem {
+    /** File (or folder, when a file is missing) the problem is reported on. */
+    path: string;
+    /** Zero-based line of the offending frontmatter field, or 0. */
+    line: number;
+    message: string;
+    severity: 'error' | 'warning' | 'info';
+}
+
+interface Frontmatter {
+    fields: Map<string, { value: string; line: number }>;
+}
+
+// Skill naming rules of the Agent Skills specification
+const SKILL_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_SKILL_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 1024;
+const SKILL_FILE = 'SKILL.md';
+
+const severities: Record<ItemProblem['severity'], vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information
+};
+
+let diagnostics: vscode.DiagnosticCollection | undefined;
+// Validated items keyed by item path, with the files their diagnostics were put on
+const validatedItems = new Map<string, { item: InstalledItemRecord; uris: vscode.Uri[] }>();
+
+/**
+ * Read the top-level fields of a markdown file's YAML frontmatter with the line each is on.
+ * Returns undefined when the file has no frontmatter block.
+ */
+function readFrontmatter(text: string): Frontmatter | undefined {
+    // Editors on Windows often save a byte order mark and CRLF line endings
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    if (lines[0]?.trim() !== '---') {
+        return undefined;
+    }
+
+    const fields = new Map<string, { value: string; line: number }>();
+    for (let index = 1; index < lines.length; index++) {
+        if (lines[index].trim() === '---') {
+            return { fields };
+        }
+        const match = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(lines[index]);
+        if (!match) {
+            continue;
+        }
+
+        const line = index;
+        let value = match[2].trim();
+        // Block scalars (`|` or `>`) continue on the indented lines below
+        if (/^[|>][+-]?$/.test(value)) {
+            const block: string[] = [];
+            while (index + 1 < lines.length && /^\s+\S/.test(lines[index + 1])) {
+                block.push(lines[++index].trim());
+            }
+            value = block.join(' ');
+        }
+        fields.set(match[1].toLowerCase(), { value: value.replace(/^(['"])(.*)\1$/, '$2'), line });
+    }
+
+    return undefined;
+}
+
+async function readText(filePath: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+function checkSkill(item: InstalledItemRecord, skillFile: string, text: string): ItemProblem[] {
+    if (!text.trim()) {
+        return [{ path: skillFile, line: 0, message: `${SKILL_FILE} is empty.`, severity: 'error' }];
+    }
+
+    const frontmatter = readFrontmatter(text);
+    if (!frontmatter) {
+        return [{ path: skillFile, line: 0, message: `${SKILL_FILE} has no frontmatter; add "name" and "description" between --- lines.`, severity: 'error' }];
+    }
+
+    const problems: ItemProblem[] = [];
+    const name = frontmatter.fields.get('name');
+    const description = frontmatter.fields.get('description');
+    if (!name?.value) {
+        problems.push({ path: skillFile, line: name?.line ?? 0, message: 'Skill frontmatter is missing "name".', severity: 'error' });
+    } else {
+        if (!SKILL_NAME_PATTERN.test(name.value) || name.value.length > MAX_SKILL_NAME_LENGTH) {
+            problems.push({
+                path: skillFile,
+                line: name.line,
+                message: `Skill name "${name.value}" should be at most ${MAX_SKILL_NAME_LENGTH} lowercase letters, digits and single hyphens.`,
+                severity: 'warning'
+            });
+        }
+        if (name.value !== path.basename(item.path)) {
+            problems.push({
+                path: skillFile,
+                line: name.line,
+                message: `Skill name "${name.value}" differs from its folder "${path.basename(item.path)}".`,
+                severity: 'info'
+            });
+        }
+    }
+    if (!description?.value) {
+        problems.push({ path: skillFile, line: description?.line ?? 0, message: 'Skill frontmatter is missing "description".', severity: 'error' });
+    } else if (description.value.length > MAX_DESCRIPTION_LENGTH) {
+        problems.push({
+            path: skillFile,
+            line: description.line,
+            message: `Skill description is ${description.value.length} characters long; keep it under ${MAX_DESCRIPTION_LENGTH}.`,
+            severity: 'warning'
+        });
+    }
+    return problems;
+}
+
+function checkAgent(filePath: string, text: string): ItemProblem[] {
+    const description = readFrontmatter(text)?.fields.get('description');
+    return description?.value
+        ? []
+        : [{ path: filePath, line: description?.line ?? 0, message: 'Agent frontmatter has no "description", so chat cannot tell when to use it.', severity: 'warning' }];
+}
+
+function checkHooks(filePath: string, text: string): ItemProblem[] {
+    try {
+        const parsed = JSON.parse(text) as { hooks?: unknown };
+        if (parsed.hooks && typeof parsed.hooks === 'object' && !Array.isArray(parsed.hooks)) {
+            return [];
+        }
+        return [{ path: filePath, line: 0, message: 'Hook file has no "hooks" object.', severity: 'error' }];
+    } catch (error) {
+        return [{ path: filePath, line: 0, message: `Hook file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`, severity: 'error' }];
+    }
+}
+
+/**
+ * Check an installed item against the conventions chat relies on: a skill folder needs a SKILL.md with a `name`
+ * and `description`, and agents, prompts and hooks must be non-empty files that chat can read.
+ */
+export async function findItemProblems(item: InstalledItemRecord): Promise<ItemProblem[]> {
+    if (item.group === MCP_SERVERS_GROUP_KEY) {
+        return [];
+    }
+
+    if (item.group === 'skills') {
+        const skillFile = item.files.find((file) =>
+            path.dirname(file) === item.path && path.basename(file).toLowerCase() === SKILL_FILE.toLowerCase());
+        const text = skillFile ? await readText(skillFile) : undefined;
+        if (!skillFile || text === undefined) {
+            return [{ path: item.path, line: 0, message: `Skill folder has no ${SKILL_FILE}, so chat will not load it.`, severity: 'error' }];
+        }
+        return checkSkill(item, skillFile, text);
+    }
+
+    const text = await readText(item.path);
+    if (text === undefined) {
+        return [{ path: item.path, line: 0, message: 'Installed file is missing.', severity: 'error' }];
+    }
+    if (!text.trim()) {
+        return [{ path: item.path, line: 0, message: 'Installed file is empty.', severity: 'error' }];
+    }
+    if (item.group === HOOKS_GROUP_KEY) {
+        return checkHooks(item.path, text);
+    }
+    return item.group === 'agents' ? checkAgent(item.path, text) : [];
+}
+
+function clearItem(itemPath: string): void {
+    for (const uri of validatedItems.get(itemPath)?.uris ?? []) {
+        diagnostics?.delete(uri);
+    }
+    validatedItems.delete(itemPath);
+}
+
+/**
+ * Validate installed items and show their problems in the Problems panel, replacing earlier results for the same items.
+ * Returns the number of problems found.
+ */
+export async function validateInstalledItems(items: InstalledItemRecord[]): Promise<number> {
+    let count = 0;
+    for (const item of items) {
+        clearItem(item.path);
+        const problems = await findItemProblems(item);
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const problem of problems) {
+            const diagnostic = new vscode.Diagnostic(new vscode.Range(problem.line, 0, problem.line, Number.MAX_SAFE_INTEGER), problem.message, severities[problem.severity]);
+            diagnostic.source = 'Agent Plugins';
+            byFile.set(problem.path, [...(byFile.get(problem.path) ?? []), diagnostic]);
+        }
+
+        const uris = Array.from(byFile, ([file, fileDiagnostics]) => {
+            const uri = vscode.Uri.file(file);
+            diagnostics?.set(uri, fileDiagnostics);
+            return uri;
+        });
+        validatedItems.set(item.path, { item, uris });
+        count += problems.filter((problem) => problem.severity !== 'info').length;
+    }
+    return count;
+}
+
+/**
+ * Drop the problems reported for items that were uninstalled.
+ */
+export function clearItemValidation(items: InstalledItemRecord[]): void {
+    for (const item of items) {
+        clearItem(item.path);
+    }
+}
+
+/**
+ * Create the diagnostics collection for installed items and re-validate an item whenever one of its files is saved,
+ * so fixed problems disappear from the Problems panel.
+ */
+export function initInstallValidation(context: vscode.ExtensionContext): void {
+    diagnostics = vscode.languages.createDiagnosticCollection('agent-plugins');
+    context.subscriptions.push(
+        diagnostics,
+        vscode.workspace.onDidSaveTextDocument((document) => {
+            const saved = document.uri.fsPath;
+            const entry = Array.from(validatedItems.values()).find(({ item }) =>
+                saved === item.path || saved.startsWith(`${item.path}${path.sep}`));
+            if (entry) {
+                void validateInstalledItems([entry.item]);
+            }
+        })
+    );
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { InstallScope } from './delegation';
 import { MarketplacePlugin } from './marketplace';
 import { getNonce } from './utils';
+import { getPluginUpdate } from './updates';
 
 export interface MarketplaceViewModel {
   plugins: MarketplacePlugin[];
@@ -13,13 +14,18 @@ export interface MarketplaceViewModel {
 export type MarketplacePanelMessage =
   | { type: 'ready' }
   | { type: 'refresh' }
-  | { type: 'install'; selectedKeys: string[]; scope: InstallScope }
+  | {
+    type: 'install';
+    selectedKeys: string[];
+    selectedItems?: Array<{ pluginKey: string; groupKey: string; itemName: string }>;
+    scope: InstallScope;
+  }
   | { type: 'addMarketplaceUrl' }
   | { type: 'resolveGroupItem'; pluginKey: string; groupName: string; itemName: string };
 
 const panelId = 'vscode-agent-plugins.marketplaceBrowser';
 
-function pluginKey(plugin: MarketplacePlugin): string {
+export function pluginKey(plugin: MarketplacePlugin): string {
   return `${plugin.id}::${plugin.sourceUrl}`;
 }
 
@@ -36,6 +42,7 @@ export function toWebviewData(viewModel: MarketplaceViewModel): Record<string, u
       description: plugin.description ?? '',
       downloadUrl: plugin.downloadUrl ?? '',
       sourceUrl: plugin.sourceUrl,
+      updateAvailable: Boolean(getPluginUpdate(plugin.id, plugin.sourceUrl)),
       groups: plugin.groups
     }))
   };
@@ -114,7 +121,7 @@ export function createMarketplaceWebviewHtml(
     .group-title { display: inline-flex; align-items: center; gap: 6px; font-size: 12px; font-weight: 600; opacity: 0.9; }
     .group-details { margin-top: 6px; padding-left: 18px; }
     .group-summary { display: inline-flex; align-items: center; gap: 6px; }
-    .group-items { margin: 0; padding-left: 20px; list-style: disc; }
+    .group-items { margin: 0; padding-left: 20px; list-style: none; }
     .group-items li { margin: 4px 0; }
     .item-row { display: inline-flex; align-items: center; gap: 6px; position: relative; }
     .item-name { line-height: 1.3; }
@@ -154,6 +161,7 @@ export function createMarketplaceWebviewHtml(
     }
     .expander { transition: transform 120ms ease; }
     details[open] > summary .expander { transform: rotate(90deg); }
+    .update-badge { --vscode-badge-background: var(--vscode-activityBarBadge-background); --vscode-badge-foreground: var(--vscode-activityBarBadge-foreground); }
     .warning { color: var(--vscode-editorWarning-foreground); }
     .error { color: var(--vscode-errorForeground); }
   </style>
@@ -189,6 +197,7 @@ export function createMarketplaceWebviewHtml(
     const initialData = ${initialData};
     let state = initialData;
     const selected = new Set();
+    const selectedItems = new Map();
 
     const statusEl = document.getElementById('status');
     const warningsEl = document.getElementById('warnings');
@@ -233,7 +242,9 @@ export function createMarketplaceWebviewHtml(
 
     function updateStatus() {
       const visible = getVisiblePlugins();
-      statusEl.textContent = visible.length + ' plugin(s) shown • ' + selected.size + ' selected • ' + state.marketplaceUrls.length + ' marketplace URL(s)';
+      const itemCount = Array.from(selectedItems.values()).filter((entry) => !selected.has(entry.pluginKey)).length;
+      const itemNote = itemCount > 0 ? ' + ' + itemCount + ' item(s)' : '';
+      statusEl.textContent = visible.length + ' plugin(s) shown • ' + selected.size + ' selected' + itemNote + ' • ' + state.marketplaceUrls.length + ' marketplace URL(s)';
     }
 
     function renderMessages() {
@@ -276,6 +287,7 @@ export function createMarketplaceWebviewHtml(
           : 0;
         badge.textContent = totalItems + ' ' + (totalItems === 1 ? 'item' : 'items');
 
+        const itemCheckboxes = [];
         const checkbox = document.createElement('vscode-checkbox');
         checkbox.checked = selected.has(plugin.key);
         checkbox.addEventListener('change', () => {
@@ -284,11 +296,22 @@ export function createMarketplaceWebviewHtml(
           } else {
             selected.delete(plugin.key);
           }
+          // A whole-plugin selection covers every item, so item checkboxes follow it
+          for (const entry of itemCheckboxes) {
+            entry.checked = checkbox.checked || selectedItems.has(entry.dataset.selectionKey);
+            entry.disabled = checkbox.checked;
+          }
           updateStatus();
         });
 
         left.appendChild(title);
         left.appendChild(badge);
+        if (plugin.updateAvailable) {
+          const updateBadge = document.createElement('vscode-badge');
+          updateBadge.className = 'update-badge';
+          updateBadge.textContent = 'Update available';
+          left.appendChild(updateBadge);
+        }
         head.appendChild(left);
         head.appendChild(checkbox);
 
@@ -338,7 +361,9 @@ export function createMarketplaceWebviewHtml(
               commands: 'terminal-cmd',
               tools: 'wrench',
               prompts: 'comment-discussion',
-              workflows: 'git-merge'
+              workflows: 'git-merge',
+              mcpServers: 'server',
+              hooks: 'zap'
             };
             groupIcon.classList.add('codicon-' + (groupIconNameMap[group.key] || 'symbol-misc'));
             const groupLabel = document.createElement('span');
@@ -354,6 +379,22 @@ export function createMarketplaceWebviewHtml(
               const itemRow = document.createElement('div');
               itemRow.className = 'item-row';
 
+              const selectionKey = plugin.key + '||' + group.key + '||' + item.name;
+              const itemCheckbox = document.createElement('vscode-checkbox');
+              itemCheckbox.dataset.selectionKey = selectionKey;
+              itemCheckbox.checked = selected.has(plugin.key) || selectedItems.has(selectionKey);
+              itemCheckbox.disabled = selected.has(plugin.key);
+              itemCheckbox.setAttribute('aria-label', 'Select ' + item.name);
+              itemCheckbox.addEventListener('change', () => {
+                if (itemCheckbox.checked) {
+                  selectedItems.set(selectionKey, { pluginKey: plugin.key, groupKey: group.key, itemName: item.name });
+                } else {
+                  selectedItems.delete(selectionKey);
+                }
+                updateStatus();
+              });
+              itemCheckboxes.push(itemCheckbox);
+
               const itemName = document.createElement('span');
               itemName.className = 'item-name';
               itemName.textContent = item.name;
@@ -394,6 +435,7 @@ export function createMarketplaceWebviewHtml(
               infoButton.addEventListener('focus', requestDescription);
               infoButton.addEventListener('click', requestDescription);
 
+              itemRow.appendChild(itemCheckbox);
               itemRow.appendChild(itemName);
               itemRow.appendChild(infoButton);
               itemEl.appendChild(itemRow);
@@ -436,6 +478,7 @@ export function createMarketplaceWebviewHtml(
       vscode.postMessage({
         type: 'install',
         selectedKeys: Array.from(selected),
+        selectedItems: Array.from(selectedItems.values()),
         scope: scopeSelect.value === 'user' ? 'user' : 'workspace'
       });
     });
@@ -445,8 +488,13 @@ export function createMarketplaceWebviewHtml(
       if (message?.type === 'state') {
         state = message.data;
         selected.clear();
+        selectedItems.clear();
         syncMarketplaceOptions();
         renderAll();
+      } else if (message?.type === 'updates') {
+        // Only the update badges changed, so keep the current selection
+        state = message.data;
+        renderPlugins();
       } else if (message?.type === 'groupItemDetails') {
         const buttons = Array.from(document.querySelectorAll('.item-info-btn')).filter((candidate) => {
           return candidate.dataset.pluginKey === message.pluginKey
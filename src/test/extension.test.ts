@@ -1,6 +1,192 @@
 import * as assert from 'assert';
-import { buildInstallPayload } from '../features/delegation';
-import { normalizeMarketplaceDocument } from '../features/marketplace';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as vscode from 'vscode';
+import { parse } from 'jsonc-parser';
+import {
+	applyInstallPlan,
+	buildInstallPayload,
+	createInstallPlan,
+	detectInstallConflicts,
+	executeUninstall,
+	expandHomePath,
+	getLocalEdits,
+	markLocalEdits,
+	removeLeftoverStagingFolders,
+	resolveAgentsPath,
+	resolveLocalEdits,
+	type InstallPlan
+} from '../features/delegation';
+import { conflictResolutionKey, getInstalledPlugins, installedPluginKey, recordInstalledPlugins } from '../features/manifest';
+import { getOperationHistory, MAX_HISTORY_ENTRIES, recordOperation } from '../features/history';
+import {
+	allMarketplacesCacheKey,
+	fetchMarketplace,
+	getHookCommands,
+	normalizeMarketplaceDocument,
+	resolveMarketplaceUrl,
+	type MarketplacePlugin
+} from '../features/marketplace';
+import { LOCKFILE_NAME, lockEntryFromRecord, readLockfile, updateLockfile } from '../features/lockfile';
+import { extractArchive } from '../features/archive';
+import { checkIntegrity } from '../features/utils';
+import {
+	CONFIG_SECTION,
+	getMarketplaceRefs,
+	INSTALL_LAYOUT_PRESETS,
+	isRelativeLayoutFolder,
+	MARKETPLACES_KEY,
+	updateMarketplaceUrls
+} from '../features/config';
+import { gitBlobSha } from '../features/git-tree';
+import {
+	createUserMcpSnippet,
+	getMcpConfigPath,
+	normalizeMcpServer,
+	removeMcpServers,
+	USER_MCP_SERVERS_HANDED_OFF,
+	writeMcpServers
+} from '../features/mcp';
+import { findRecommendedPlugins, readRecommendations } from '../features/recommendations';
+import { createPluginSet, parsePluginSet } from '../features/plugin-set';
+import { findItemProblems } from '../features/validation';
+import { getInstallFolderChoices } from '../features/commands';
+import { fetchLocalFile, getLocalMarketplaceRoot, listLocalPath, toLocalBaseUrl } from '../features/local-marketplace';
+
+function tarEntry(name: string, content: string): Buffer {
+	const header = Buffer.alloc(512);
+	header.write(name, 0);
+	header.write(content.length.toString(8).padStart(11, '0'), 124);
+	header.write('0', 156);
+	const body = Buffer.alloc(Math.ceil(content.length / 512) * 512);
+	body.write(content);
+	return Buffer.concat([header, body]);
+}
+
+// A zip archive with a single deflated entry
+function zipWithEntry(name: string, content: Buffer): Buffer {
+	const data = zlib.deflateRawSync(content);
+	const local = Buffer.alloc(30);
+	local.writeUInt32LE(0x04034b50, 0);
+	local.writeUInt16LE(8, 8);
+	local.writeUInt32LE(data.length, 18);
+	local.writeUInt32LE(content.length, 22);
+	local.writeUInt16LE(name.length, 26);
+	const central = Buffer.alloc(46);
+	central.writeUInt32LE(0x02014b50, 0);
+	central.writeUInt16LE(8, 10);
+	central.writeUInt32LE(data.length, 20);
+	central.writeUInt32LE(content.length, 24);
+	central.writeUInt16LE(name.length, 28);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(1, 8);
+	end.writeUInt16LE(1, 10);
+	end.writeUInt32LE(central.length + name.length, 12);
+	end.writeUInt32LE(local.length + name.length + data.length, 16);
+	return Buffer.concat([local, Buffer.from(name), data, central, Buffer.from(name), end]);
+}
+
+// Answer every fetch made while `run` is pending with `respond`, and return the requested URLs in order
+async function withStubbedFetch<T>(respond: (url: string) => Response, run: () => Promise<T>): Promise<{ result: T; requested: string[] }> {
+	const requested: string[] = [];
+	const original = globalThis.fetch;
+	globalThis.fetch = async (input: string | URL | Request) => {
+		const url = input instanceof Request ? input.url : String(input);
+		requested.push(url);
+		return respond(url);
+	};
+	try {
+		return { result: await run(), requested };
+	} finally {
+		globalThis.fetch = original;
+	}
+}
+
+const EXAMPLE_MARKETPLACE = 'https://marketplace.example/marketplace.json';
+
+// A plugin of the example marketplace; skills are read from `<group>/<name>/SKILL.md`, other items from `<group>/<name>.md`
+function examplePlugin(id: string, groups: Record<string, string[]>): MarketplacePlugin {
+	return {
+		id,
+		name: id,
+		groups: Object.entries(groups).map(([key, names]) => ({
+			name: key,
+			key,
+			items: names.map((name) => ({
+				name,
+				metadataUrl: key === 'skills'
+					? `https://marketplace.example/${key}/${name}/SKILL.md`
+					: `https://marketplace.example/${key}/${name}.md`,
+				metadataFallbackUrls: []
+			}))
+		})),
+		sourceUrl: EXAMPLE_MARKETPLACE,
+		marketplaceDocumentUrl: EXAMPLE_MARKETPLACE,
+		raw: {}
+	};
+}
+
+// Serve every file of the example marketplace with its path as content
+function exampleMarketplaceFile(url: string): Response {
+	return url.startsWith('https://marketplace.example/')
+		? new Response(`# ${new URL(url).pathname}\n`)
+		: new Response(null, { status: 404 });
+}
+
+function createTestContext(): vscode.ExtensionContext {
+	const createMemento = (): vscode.Memento => {
+		const values = new Map<string, unknown>();
+		return {
+			keys: () => Array.from(values.keys()),
+			get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+			update: async (key: string, value: unknown) => {
+				values.set(key, value);
+			}
+		} as unknown as vscode.Memento;
+	};
+	return { workspaceState: createMemento(), globalState: createMemento() } as unknown as vscode.ExtensionContext;
+}
+
+// A user-scope plan installing the `pdf` skill of plugin `alpha` with the given files
+function skillPlan(targetPath: string, files: Record<string, string>): InstallPlan {
+	const plugin = {
+		id: 'alpha',
+		name: 'Alpha',
+		groups: [],
+		sourceUrl: 'https://marketplace.example/marketplace.json',
+		marketplaceDocumentUrl: 'https://marketplace.example/marketplace.json',
+		raw: {}
+	};
+	const skillPath = path.join(targetPath, 'skills', 'pdf');
+	return {
+		payload: buildInstallPayload([plugin], 'user', targetPath, [plugin.sourceUrl]),
+		plugins: [{
+			plugin,
+			partial: false,
+			mcpServers: [],
+			items: [{
+				group: 'skills',
+				name: 'pdf',
+				path: skillPath,
+				files: Object.entries(files).map(([name, text]) => ({
+					targetPath: path.join(skillPath, name),
+					size: text.length,
+					action: fs.existsSync(path.join(skillPath, name)) ? 'overwrite' : 'create',
+					content: Buffer.from(text, 'utf8')
+				}))
+			}]
+		}],
+		skippedGroups: [],
+		chatLocations: {},
+		conflictResolutions: new Map(),
+		layout: INSTALL_LAYOUT_PRESETS.copilot,
+		userMcpServers: []
+	};
+}
 
 suite('Extension Test Suite', () => {
 	test('normalizes marketplace plugin entries', () => {
@@ -55,4 +241,879 @@ suite('Extension Test Suite', () => {
 		assert.strictEqual(payload.plugins.length, 1);
 		assert.strictEqual(payload.marketplaceUrls.length, 1);
 	});
+
+	test('builds lockfile entries with workspace-relative file hashes', () => {
+		const entry = lockEntryFromRecord({
+			id: 'alpha',
+			name: 'Alpha Plugin',
+			version: '1.2.3',
+			branch: 'main',
+			commit: '0123456789abcdef0123456789abcdef01234567',
+			sourceUrl: 'https://marketplace.example/marketplace.json',
+			scope: 'workspace',
+			targetPath: '/repo',
+			installedAt: '2026-01-01T00:00:00.000Z',
+			items: [
+				{
+					group: 'skills',
+					name: 'summarize',
+					path: '/repo/.agents/skills/summarize',
+					sourcePath: 'skills/summarize',
+					files: ['/repo/.agents/skills/summarize/SKILL.md'],
+					fileHashes: { '/repo/.agents/skills/summarize/SKILL.md': 'abc123' }
+				}
+			]
+		});
+
+		assert.strictEqual(entry.pluginId, 'alpha');
+		assert.strictEqual(entry.commit, '0123456789abcdef0123456789abcdef01234567');
+		assert.deepStrictEqual(entry.items, [{ group: 'skills', name: 'summarize', sourcePath: 'skills/summarize' }]);
+		assert.deepStrictEqual(entry.files, { '.agents/skills/summarize/SKILL.md': 'abc123' });
+	});
+
+	test('leaves a lockfile that does not parse untouched', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const lockPath = path.join(root, LOCKFILE_NAME);
+		const conflicted = '{\n  "lockfileVersion": 1,\n<<<<<<< HEAD\n  "plugins": []\n=======\n  "plugins": [{ "pluginId": "beta" }]\n>>>>>>> teammate\n}\n';
+		const record = {
+			id: 'alpha',
+			name: 'Alpha',
+			sourceUrl: 'https://marketplace.example/marketplace.json',
+			scope: 'workspace' as const,
+			targetPath: root,
+			installedAt: '2026-01-01T00:00:00.000Z',
+			items: []
+		};
+
+		const missing = await readLockfile(root);
+		fs.writeFileSync(lockPath, conflicted);
+		await assert.rejects(() => updateLockfile(root, [record]), /agent-plugins\.lock\.json/);
+		const after = fs.readFileSync(lockPath, 'utf8');
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.strictEqual(missing, undefined);
+		assert.strictEqual(after, conflicted);
+	});
+
+	test('extracts tar.gz archives and strips the shared root folder', () => {
+		const archive = zlib.gzipSync(Buffer.concat([
+			tarEntry('plugin-abc123/skills/pdf/SKILL.md', '# PDF'),
+			tarEntry('plugin-abc123/agents/reviewer.md', '# Reviewer'),
+			Buffer.alloc(1024)
+		]));
+
+		const entries = extractArchive(archive);
+		assert.deepStrictEqual(entries.map((entry) => entry.path), ['skills/pdf/SKILL.md', 'agents/reviewer.md']);
+		assert.strictEqual(entries[0].content.toString('utf8'), '# PDF');
+
+		const escaping = zlib.gzipSync(Buffer.concat([tarEntry('../outside.md', 'nope'), Buffer.alloc(1024)]));
+		assert.throws(() => extractArchive(escaping), /escapes the archive root/);
+	});
+
+	test('checks integrity digests in base64 and hex form', () => {
+		const content = Buffer.from('# Skill\n', 'utf8');
+		const base64 = `sha256-${crypto.createHash('sha256').update(content).digest('base64')}`;
+		const hex = `sha256-${crypto.createHash('sha256').update(content).digest('hex')}`;
+
+		assert.deepStrictEqual(checkIntegrity(content, base64), { valid: true, actual: base64 });
+		assert.strictEqual(checkIntegrity(content, hex).valid, true);
+		assert.strictEqual(checkIntegrity(Buffer.from('tampered'), base64).valid, false);
+		assert.throws(() => checkIntegrity(content, 'md5-abc'), /Unsupported integrity value/);
+	});
+
+	test('resolves install layout user roots', () => {
+		assert.strictEqual(expandHomePath(INSTALL_LAYOUT_PRESETS.claude.userRoot), path.join(os.homedir(), '.claude'));
+		assert.strictEqual(expandHomePath('/opt/agents'), '/opt/agents');
+		assert.strictEqual(INSTALL_LAYOUT_PRESETS.claude.groups.agents.fileSuffix, '.md');
+	});
+
+	test('computes git blob SHAs like git hash-object', () => {
+		assert.strictEqual(gitBlobSha(Buffer.from('hello\n', 'utf8')), 'ce013625030ba8dba906f756967f9e9ca394464a');
+		assert.strictEqual(gitBlobSha(Buffer.alloc(0)), 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+	});
+
+	test('converts MCP server definitions to VS Code form', () => {
+		const result = normalizeMarketplaceDocument(
+			{
+				plugins: [{ id: 'beta', name: 'Beta', mcpServers: { github: { command: 'npx', args: ['server-github'] } } }]
+			},
+			'https://marketplace.example/marketplace.json'
+		);
+		const group = result.plugins[0].groups.find((entry) => entry.key === 'mcpServers');
+		assert.strictEqual(group?.items[0].description, 'npx server-github');
+
+		const server = normalizeMcpServer('github', {
+			config: {
+				command: 'npx',
+				env: { TOKEN: '${AGENT_PLUGINS_TEST_TOKEN}', LEVEL: '${LOG_LEVEL:-info}', ORG: '${AGENT_PLUGINS_TEST_ORG}', ROOT: '${workspaceFolder}' }
+			}
+		});
+		assert.strictEqual(server.config.type, 'stdio');
+		assert.deepStrictEqual(server.config.env, {
+			TOKEN: '${input:AGENT_PLUGINS_TEST_TOKEN}',
+			LEVEL: 'info',
+			ORG: '${AGENT_PLUGINS_TEST_ORG}',
+			ROOT: '${workspaceFolder}'
+		});
+		assert.strictEqual(server.inputs[0].password, true);
+		assert.deepStrictEqual(server.missingValues, ['AGENT_PLUGINS_TEST_ORG']);
+	});
+
+	test('parses plugin hooks into one item per event', () => {
+		const result = normalizeMarketplaceDocument(
+			{
+				plugins: [{
+					id: 'gamma',
+					hooks: { hooks: { PreToolUse: [{ matcher: 'Bash', hooks: [{ type: 'command', command: './check.sh' }] }] } }
+				}]
+			},
+			'https://marketplace.example/marketplace.json'
+		);
+		const group = result.plugins[0].groups.find((entry) => entry.key === 'hooks');
+		assert.strictEqual(group?.items.length, 1);
+		assert.strictEqual(group?.items[0].name, 'PreToolUse');
+		assert.deepStrictEqual(group?.items[0].hook ? getHookCommands(group.items[0].hook) : [], ['./check.sh']);
+	});
+
+	test('reads workspace plugin recommendations with comments', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		fs.mkdirSync(path.join(root, '.vscode'));
+		fs.writeFileSync(path.join(root, '.vscode', 'agent-plugins.json'), `{
+			// shared with the team
+			"marketplaces": ["https://github.com/org/market"],
+			"recommendations": ["alpha", { "id": "beta", "items": [{ "group": "skills", "name": "pdf" }] }, 42,],
+		}`);
+
+		const recommendations = await readRecommendations(root);
+		fs.rmSync(root, { recursive: true, force: true });
+		assert.deepStrictEqual(recommendations?.marketplaces, ['https://github.com/org/market']);
+		assert.deepStrictEqual(recommendations?.plugins.map((entry) => entry.id), ['alpha', 'beta']);
+		assert.strictEqual(recommendations?.plugins[1].items?.[0].name, 'pdf');
+	});
+
+	test('asks about recommended plugins that collide with installed items', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const skillsRoot = path.join(root, ...INSTALL_LAYOUT_PRESETS.copilot.groups.skills.workspace.split('/'));
+		fs.mkdirSync(path.join(skillsRoot, 'pdf'), { recursive: true });
+		fs.writeFileSync(path.join(skillsRoot, 'pdf', 'SKILL.md'), '# Alpha PDF\n');
+		await recordInstalledPlugins(context, 'workspace', [{
+			id: 'alpha',
+			name: 'alpha',
+			sourceUrl: EXAMPLE_MARKETPLACE,
+			scope: 'workspace',
+			targetPath: root,
+			installedAt: '2026-01-01T00:00:00.000Z',
+			items: [{ group: 'skills', name: 'pdf', path: path.join(skillsRoot, 'pdf'), files: [path.join(skillsRoot, 'pdf', 'SKILL.md')] }]
+		}]);
+
+		const available = [examplePlugin('alpha', { skills: ['pdf'] }), examplePlugin('beta', { skills: ['pdf'] })];
+		const { plugins, selections, missing } = findRecommendedPlugins(available, [{ id: 'beta', marketplace: `${EXAMPLE_MARKETPLACE}/` }, { id: 'gamma' }]);
+		const payload = buildInstallPayload(plugins, 'workspace', root, [EXAMPLE_MARKETPLACE], selections);
+		const conflicts = await detectInstallConflicts(context, plugins, payload);
+		const conflictResolutions = new Map([[conflictResolutionKey('beta', EXAMPLE_MARKETPLACE, 'skills', 'pdf'), 'namespace' as const]]);
+		const { result: plan } = await withStubbedFetch(exampleMarketplaceFile, () => createInstallPlan(context, plugins, payload, { conflictResolutions }));
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(missing, ['gamma']);
+		assert.deepStrictEqual(conflicts.map((conflict) => [conflict.plugin, conflict.conflictsWith, conflict.targetPath]), [['beta', 'alpha', path.join(skillsRoot, 'pdf')]]);
+		assert.deepStrictEqual(plan.plugins[0].items.map((item) => item.path), [path.join(skillsRoot, 'beta-pdf')]);
+	});
+
+	test('installs only the selected items of a partially selected plugin', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const plugin = examplePlugin('alpha', { skills: ['pdf', 'docx'], agents: ['reviewer'] });
+		const selections = new Map([[installedPluginKey('alpha', EXAMPLE_MARKETPLACE), [{ group: 'skills', name: 'pdf' }]]]);
+		const payload = buildInstallPayload([plugin], 'workspace', root, [EXAMPLE_MARKETPLACE], selections);
+		const { result: plan, requested } = await withStubbedFetch(exampleMarketplaceFile, () => createInstallPlan(context, [plugin], payload));
+		const result = await applyInstallPlan(context, plan);
+		const [record] = getInstalledPlugins(context, 'workspace');
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.strictEqual(plan.plugins[0].partial, true);
+		assert.deepStrictEqual(plan.plugins[0].items.map((item) => [item.group, item.name]), [['skills', 'pdf']]);
+		assert.deepStrictEqual(requested, ['https://marketplace.example/skills/pdf/SKILL.md']);
+		assert.ok(result.success);
+		assert.strictEqual(record.partial, true);
+		assert.deepStrictEqual(record.items.map((item) => item.name), ['pdf']);
+	});
+
+	test('installs every file-based group into its own folder and skips tools', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const plugin = examplePlugin('alpha', {
+			skills: ['pdf'],
+			agents: ['reviewer'],
+			prompts: ['summarize'],
+			commands: ['release'],
+			workflows: ['triage'],
+			tools: ['search']
+		});
+		const plan = async (scope: 'workspace' | 'user') => (await withStubbedFetch(exampleMarketplaceFile, () =>
+			createInstallPlan(createTestContext(), [plugin], buildInstallPayload([plugin], scope, root, [EXAMPLE_MARKETPLACE])))).result;
+		const workspacePlan = await plan('workspace');
+		const userPlan = await plan('user');
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(workspacePlan.plugins[0].items.map((item) => item.files.map((file) => path.relative(root, file.targetPath))), [
+			[path.join('.agents', 'skills', 'pdf', 'SKILL.md')],
+			[path.join('.github', 'agents', 'reviewer.agent.md')],
+			[path.join('.github', 'prompts', 'summarize.prompt.md')],
+			[path.join('.github', 'prompts', 'release.prompt.md')],
+			[path.join('.github', 'prompts', 'triage.prompt.md')]
+		]);
+		assert.deepStrictEqual(workspacePlan.chatLocations, {});
+		assert.deepStrictEqual(workspacePlan.skippedGroups.map((entry) => [entry.plugin, entry.group, entry.itemCount]), [['alpha', 'tools', 1]]);
+
+		const userRoot = path.join(root, 'marketplace', 'alpha');
+		assert.deepStrictEqual(userPlan.chatLocations, {
+			'chat.agentSkillsLocations': [path.join(userRoot, 'skills')],
+			'chat.agentFilesLocations': [path.join(userRoot, 'agents')],
+			'chat.promptFilesLocations': [path.join(userRoot, 'prompts')]
+		});
+		assert.deepStrictEqual(userPlan.skippedGroups.map((entry) => entry.group), ['tools']);
+	});
+
+	test('plans every write for the preview without touching the disk', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const plugin = examplePlugin('alpha', { skills: ['pdf'], agents: ['reviewer'] });
+		const payload = buildInstallPayload([plugin], 'workspace', root, [EXAMPLE_MARKETPLACE]);
+		const { result: installed } = await withStubbedFetch(exampleMarketplaceFile, () => createInstallPlan(context, [plugin], payload));
+		await applyInstallPlan(context, installed);
+		const listFiles = () => fs.readdirSync(root, { recursive: true, encoding: 'utf8' }).sort()
+			.map((name) => [name, fs.statSync(path.join(root, name)).mtimeMs]);
+		const before = listFiles();
+
+		const updated = examplePlugin('alpha', { skills: ['pdf', 'docx'], agents: ['reviewer'] });
+		const { result: plan } = await withStubbedFetch((url) => url.endsWith('/reviewer.md')
+			? new Response('# Reviewer v2\n')
+			: exampleMarketplaceFile(url), () => createInstallPlan(context, [updated], buildInstallPayload([updated], 'workspace', root, [EXAMPLE_MARKETPLACE])));
+		const after = listFiles();
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(after, before);
+		assert.deepStrictEqual(plan.plugins[0].items.flatMap((item) => item.files.map((file) =>
+			[path.relative(root, file.targetPath), file.action, file.size, file.sourceUrl])), [
+			[path.join('.agents', 'skills', 'pdf', 'SKILL.md'), 'unchanged', 23, 'https://marketplace.example/skills/pdf/SKILL.md'],
+			[path.join('.agents', 'skills', 'docx', 'SKILL.md'), 'create', 24, 'https://marketplace.example/skills/docx/SKILL.md'],
+			[path.join('.github', 'agents', 'reviewer.agent.md'), 'overwrite', 14, 'https://marketplace.example/agents/reviewer.md']
+		]);
+	});
+
+	test('suggests the remembered or active folder for installs in a multi-root workspace', () => {
+		const folders = ['web', 'api', 'docs'].map((name, index) => ({ name, index, uri: vscode.Uri.file(path.join(os.tmpdir(), name)) }));
+		const names = (choices: { ordered: vscode.WorkspaceFolder[] }) => choices.ordered.map((folder) => folder.name);
+
+		const remembered = getInstallFolderChoices(folders, folders[2].uri.toString(), folders[1]);
+		const active = getInstallFolderChoices(folders, vscode.Uri.file(path.join(os.tmpdir(), 'closed')).toString(), folders[1]);
+		const neither = getInstallFolderChoices(folders, undefined, undefined);
+
+		assert.strictEqual(remembered.remembered, folders[2]);
+		assert.deepStrictEqual(names(remembered), ['docs', 'web', 'api']);
+		assert.strictEqual(active.remembered, undefined);
+		assert.deepStrictEqual(names(active), ['api', 'web', 'docs']);
+		assert.deepStrictEqual(names(neither), ['web', 'api', 'docs']);
+		assert.strictEqual(resolveAgentsPath('workspace', folders[2]), folders[2].uri.fsPath);
+	});
+
+	test('exports plugin sets without machine-specific paths', () => {
+		const record = {
+			id: 'alpha',
+			name: 'Alpha',
+			sourceUrl: 'https://github.com/org/market',
+			scope: 'workspace' as const,
+			installedAt: '2026-01-01T00:00:00.000Z',
+			partial: true,
+			items: [{ group: 'skills', name: 'pdf', path: '/a/.agents/skills/pdf', files: [] }]
+		};
+		const exported = createPluginSet([
+			{ ...record, targetPath: '/a' },
+			{ ...record, targetPath: '/b', items: [{ group: 'agents', name: 'triage', path: '/b/.github/agents/triage.agent.md', files: [] }] }
+		]);
+
+		assert.strictEqual(exported.plugins.length, 1);
+		assert.deepStrictEqual(exported.plugins[0].items, [{ group: 'skills', name: 'pdf' }, { group: 'agents', name: 'triage' }]);
+		assert.ok(!JSON.stringify(exported).includes('/a/'));
+		assert.deepStrictEqual(parsePluginSet(JSON.stringify(exported)).plugins, exported.plugins);
+		assert.throws(() => parsePluginSet('{"version":"v1","plugins":[{"id":"x","sourceUrl":"u","scope":"team"}]}'), /expected "workspace" or "user"/);
+	});
+
+	test('reports skill frontmatter problems on the offending line', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const skillFolder = path.join(root, 'pdf-tools');
+		const skillFile = path.join(skillFolder, 'SKILL.md');
+		fs.mkdirSync(skillFolder);
+		fs.writeFileSync(skillFile, '---\nname: PDF Tools\ndescription: >\n  Works with PDF files.\n---\n# PDF\n');
+		const problems = await findItemProblems({ group: 'skills', name: 'pdf-tools', path: skillFolder, files: [skillFile] });
+		const missing = await findItemProblems({ group: 'skills', name: 'empty', path: root, files: [] });
+		fs.writeFileSync(skillFile, '\uFEFF---\r\nname: pdf-tools\r\ndescription: Works with PDF files.\r\n---\r\n# PDF\r\n');
+		const windowsStyle = await findItemProblems({ group: 'skills', name: 'pdf-tools', path: skillFolder, files: [skillFile] });
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(problems.map((problem) => [problem.severity, problem.line]), [['warning', 1], ['info', 1]]);
+		assert.strictEqual(missing[0].severity, 'error');
+		assert.strictEqual(missing[0].path, root);
+		assert.deepStrictEqual(windowsStyle, []);
+	});
+
+	test('reads local marketplaces from disk', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		fs.mkdirSync(path.join(root, '.claude-plugin'));
+		fs.mkdirSync(path.join(root, 'skills', 'pdf'), { recursive: true });
+		fs.writeFileSync(path.join(root, 'skills', 'pdf', 'SKILL.md'), '# PDF\n');
+		const baseUrl = toLocalBaseUrl(root);
+
+		assert.strictEqual(getLocalMarketplaceRoot(`${baseUrl}/.claude-plugin/marketplace.json`), root);
+		assert.strictEqual(getLocalMarketplaceRoot('https://example.com/marketplace.json'), undefined);
+		assert.deepStrictEqual(await listLocalPath(root, './skills'), [{ type: 'dir', name: 'pdf', path: 'skills/pdf' }]);
+		assert.strictEqual(await listLocalPath(root, '../'), undefined);
+		assert.strictEqual(await (await fetchLocalFile(`${baseUrl}/skills/pdf/SKILL.md`)).text(), '# PDF\n');
+		assert.strictEqual((await fetchLocalFile(`${baseUrl}/missing.md`)).status, 404);
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('installs plugins of a local marketplace from disk without network access', async () => {
+		const source = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-market-'));
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		fs.mkdirSync(path.join(source, '.claude-plugin'));
+		fs.writeFileSync(path.join(source, '.claude-plugin', 'marketplace.json'), JSON.stringify({
+			name: 'local',
+			plugins: [{ name: 'docs', source: './', skills: ['./skills/pdf'], agents: ['./agents/reviewer.md'] }]
+		}));
+		fs.mkdirSync(path.join(source, 'skills', 'pdf', 'scripts'), { recursive: true });
+		fs.writeFileSync(path.join(source, 'skills', 'pdf', 'SKILL.md'), '---\nname: pdf\ndescription: Works with PDF files.\n---\n');
+		fs.writeFileSync(path.join(source, 'skills', 'pdf', 'scripts', 'extract.py'), 'print(1)\n');
+		fs.mkdirSync(path.join(source, 'agents'));
+		fs.writeFileSync(path.join(source, 'agents', 'reviewer.md'), '# Reviewer\n');
+
+		const context = createTestContext();
+		const { result: { marketplace, plan, result }, requested } = await withStubbedFetch(() => new Response(null, { status: 404 }), async () => {
+			const marketplace = await fetchMarketplace(source);
+			const payload = buildInstallPayload(marketplace.plugins, 'workspace', root, [source]);
+			const plan = await createInstallPlan(context, marketplace.plugins, payload);
+			return { marketplace, plan, result: await applyInstallPlan(context, plan) };
+		});
+		const skillPath = path.join(root, ...INSTALL_LAYOUT_PRESETS.copilot.groups.skills.workspace.split('/'), 'pdf');
+		const installed = [
+			fs.readFileSync(path.join(skillPath, 'scripts', 'extract.py'), 'utf8'),
+			fs.readFileSync(path.join(root, '.github', 'agents', 'reviewer.agent.md'), 'utf8')
+		];
+		fs.rmSync(source, { recursive: true, force: true });
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(marketplace.errors, []);
+		assert.deepStrictEqual(requested, []);
+		assert.deepStrictEqual(plan.plugins[0].items.flatMap((item) => item.files.map((file) => path.relative(root, file.targetPath))), [
+			path.join(path.relative(root, skillPath), 'SKILL.md'),
+			path.join(path.relative(root, skillPath), 'scripts', 'extract.py'),
+			path.join('.github', 'agents', 'reviewer.agent.md')
+		]);
+		assert.strictEqual(plan.plugins[0].commit, undefined);
+		assert.ok(result.success);
+		assert.deepStrictEqual(installed, ['print(1)\n', '# Reviewer\n']);
+	});
+
+	test('reads external plugin sources from marketplace entries', () => {
+		const result = normalizeMarketplaceDocument(
+			{
+				plugins: [
+					{ name: 'alpha', source: { source: 'github', repo: 'org/alpha', ref: 'v1' } },
+					{ name: 'beta', source: { source: 'url', url: 'https://github.com/org/beta.git' } },
+					{ name: 'gamma', source: { source: 'url', url: 'https://gitlab.com/org/gamma.git' } }
+				]
+			},
+			'https://github.com/org/market'
+		);
+
+		assert.deepStrictEqual(result.plugins[0].sourceRepo, { owner: 'org', repo: 'alpha', ref: 'v1', path: undefined });
+		assert.deepStrictEqual(result.plugins[1].sourceRepo, { owner: 'org', repo: 'beta', ref: undefined, path: undefined });
+		assert.strictEqual(result.plugins[2].sourceRepo, undefined);
+		assert.ok(result.warnings.some((warning) => warning.includes('gamma') && warning.includes('not a GitHub repository')));
+	});
+
+	test('installs plugins whose source is another GitHub repository from that repository', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const commit = 'c'.repeat(40);
+		const files: Record<string, string> = {
+			'plugins/alpha/skills/pdf/SKILL.md': '---\nname: pdf\ndescription: Works with PDF files.\n---\n',
+			'plugins/alpha/skills/pdf/scripts/extract.py': 'print(1)\n'
+		};
+		const folders = ['plugins', 'plugins/alpha', 'plugins/alpha/skills', 'plugins/alpha/skills/pdf', 'plugins/alpha/skills/pdf/scripts'];
+		const tree = {
+			sha: commit,
+			truncated: false,
+			tree: [
+				...folders.map((folder) => ({ path: folder, type: 'tree', sha: '0'.repeat(40) })),
+				...Object.entries(files).map(([file, text]) => ({ path: file, type: 'blob', sha: gitBlobSha(Buffer.from(text)), size: text.length }))
+			]
+		};
+		const documentUrl = 'https://raw.githubusercontent.com/org/external-market/main/.claude-plugin/marketplace.json';
+		const document = {
+			plugins: [{ name: 'alpha', source: { source: 'github', repo: 'org/alpha', ref: 'v1', path: 'plugins/alpha' }, skills: ['./skills/pdf'] }]
+		};
+
+		const { result: plan, requested } = await withStubbedFetch((url) => {
+			if (url === documentUrl) {
+				return new Response(JSON.stringify(document));
+			}
+			if (url === 'https://api.github.com/repos/org/alpha/commits/v1') {
+				return new Response(commit);
+			}
+			if (url.startsWith('https://api.github.com/repos/org/alpha/git/trees/')) {
+				return new Response(JSON.stringify(tree));
+			}
+			const file = /^https:\/\/raw\.githubusercontent\.com\/org\/alpha\/[^/]+\/(.+)$/.exec(url)?.[1];
+			return file && files[file] !== undefined ? new Response(files[file]) : new Response(null, { status: 404 });
+		}, async () => {
+			const { plugins } = await fetchMarketplace(documentUrl);
+			return createInstallPlan(createTestContext(), plugins, buildInstallPayload(plugins, 'workspace', root, [documentUrl]));
+		});
+		fs.rmSync(root, { recursive: true, force: true });
+
+		const skillPath = path.join(root, ...INSTALL_LAYOUT_PRESETS.copilot.groups.skills.workspace.split('/'), 'pdf');
+		assert.strictEqual(plan.plugins[0].commit, commit);
+		assert.deepStrictEqual(plan.plugins[0].items[0].files.map((file) => [file.targetPath, file.content.toString()]).sort(), [
+			[path.join(skillPath, 'SKILL.md'), files['plugins/alpha/skills/pdf/SKILL.md']],
+			[path.join(skillPath, 'scripts', 'extract.py'), files['plugins/alpha/skills/pdf/scripts/extract.py']]
+		]);
+		assert.deepStrictEqual(requested.filter((url) => url !== documentUrl && !url.includes('/org/alpha/')), []);
+	});
+
+	test('leaves no files behind when a plugin is updated and then uninstalled', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const skill = '---\nname: pdf\ndescription: Works with PDF files.\n---\n';
+
+		assert.ok((await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': skill, 'scripts/extract.py': 'print(1)\n' }))).success);
+		assert.ok((await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': skill }))).success);
+		const [record] = getInstalledPlugins(context, 'user');
+		assert.ok((await executeUninstall(context, record)).success);
+		const remaining = fs.readdirSync(root);
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(remaining, []);
+	});
+
+	test('keeps locally edited files on uninstall unless told to delete them', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const skillPath = path.join(root, 'skills', 'pdf');
+		const files = { 'SKILL.md': '# PDF\n', 'notes.md': '# Notes\n' };
+		await applyInstallPlan(context, skillPlan(root, files));
+		fs.writeFileSync(path.join(skillPath, 'notes.md'), '# My notes\n');
+
+		let asked: string[] = [];
+		const cancelled = await executeUninstall(context, getInstalledPlugins(context, 'user')[0], undefined, {
+			deleteLocalEdits: async (files) => {
+				asked = files;
+				return undefined;
+			}
+		});
+		const afterCancel = fs.readdirSync(skillPath).sort();
+		const kept = await executeUninstall(context, getInstalledPlugins(context, 'user')[0]);
+		const afterUninstall = fs.readdirSync(skillPath);
+		const [history] = getOperationHistory(context, 'user');
+
+		await applyInstallPlan(context, skillPlan(root, files));
+		fs.writeFileSync(path.join(skillPath, 'notes.md'), '# My notes\n');
+		const deleted = await executeUninstall(context, getInstalledPlugins(context, 'user')[0], undefined, {
+			deleteLocalEdits: async () => true
+		});
+		const remaining = fs.readdirSync(root);
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(asked, [path.join(skillPath, 'notes.md')]);
+		assert.strictEqual(cancelled.cancelled, true);
+		assert.deepStrictEqual(afterCancel, ['SKILL.md', 'notes.md']);
+		assert.ok(kept.success);
+		assert.deepStrictEqual(kept.keptFiles, [path.join(skillPath, 'notes.md')]);
+		assert.deepStrictEqual(afterUninstall, ['notes.md']);
+		assert.deepStrictEqual(history.files, [
+			{ path: path.join(skillPath, 'SKILL.md'), action: 'delete' },
+			{ path: path.join(skillPath, 'notes.md'), action: 'keep' }
+		]);
+		assert.ok(deleted.success);
+		assert.deepStrictEqual(remaining, []);
+	});
+
+	test('records installs, updates and uninstalls in the history of their scope', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const skillFile = path.join(root, 'skills', 'pdf', 'SKILL.md');
+		await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': '# PDF\n' }));
+		await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': '# PDF v2\n' }));
+		await executeUninstall(context, getInstalledPlugins(context, 'user')[0]);
+		const history = getOperationHistory(context, 'user');
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(history.map((entry) => [entry.operation, entry.success, entry.targetPath, entry.plugins.map((plugin) => plugin.id)]), [
+			['uninstall', true, root, ['alpha']],
+			['update', true, root, ['alpha']],
+			['install', true, root, ['alpha']]
+		]);
+		assert.deepStrictEqual(history.map((entry) => entry.files), [
+			[{ path: skillFile, action: 'delete' }],
+			[{ path: skillFile, action: 'overwrite' }],
+			[{ path: skillFile, action: 'create' }]
+		]);
+		assert.deepStrictEqual(getOperationHistory(context, 'workspace'), []);
+	});
+
+	test('keeps only the newest history entries of each scope', async () => {
+		const context = createTestContext();
+		const start = Date.parse('2026-01-01T00:00:00.000Z');
+		for (let index = 0; index < MAX_HISTORY_ENTRIES + 5; index++) {
+			await recordOperation(context, {
+				timestamp: new Date(start + index * 1000).toISOString(),
+				operation: 'install',
+				scope: 'workspace',
+				targetPath: '/workspace',
+				success: true,
+				plugins: [{ id: `plugin-${index}`, name: `plugin-${index}`, sourceUrl: EXAMPLE_MARKETPLACE }],
+				files: []
+			});
+		}
+		const history = getOperationHistory(context, 'workspace');
+
+		assert.strictEqual(history.length, MAX_HISTORY_ENTRIES);
+		assert.strictEqual(history[0].plugins[0].id, `plugin-${MAX_HISTORY_ENTRIES + 4}`);
+		assert.strictEqual(history[history.length - 1].plugins[0].id, 'plugin-5');
+	});
+
+	test('deletes files an update drops from a skill folder unless they were edited', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const skillPath = path.join(root, 'skills', 'pdf');
+		await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': '# PDF\n', 'forms.md': '# Forms\n', 'notes.md': '# Notes\n' }));
+		fs.writeFileSync(path.join(skillPath, 'notes.md'), '# My notes\n');
+
+		const result = await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': '# PDF v2\n' }));
+		const [item] = getInstalledPlugins(context, 'user')[0].items;
+		const exists = ['forms.md', 'notes.md'].map((name) => fs.existsSync(path.join(skillPath, name)));
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.ok(result.success);
+		assert.deepStrictEqual(exists, [false, true]);
+		assert.deepStrictEqual(item.files, [path.join(skillPath, 'SKILL.md'), path.join(skillPath, 'notes.md')]);
+	});
+
+	test('reports install conflicts between plugins but not over a plugin\'s own files', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const sourceUrl = 'https://marketplace.example/marketplace.json';
+		const skillPlugin = (id: string) => ({
+			id,
+			name: id,
+			groups: [{ name: 'Skills', key: 'skills', items: [{ name: 'pdf', metadataFallbackUrls: [] }] }],
+			sourceUrl,
+			marketplaceDocumentUrl: sourceUrl,
+			raw: {}
+		});
+		const [alpha, beta] = [skillPlugin('alpha'), skillPlugin('beta')];
+		const skillPath = path.join(root, ...INSTALL_LAYOUT_PRESETS.copilot.groups.skills.workspace.split('/'), 'pdf');
+
+		const batch = await detectInstallConflicts(context, [alpha, beta], buildInstallPayload([alpha, beta], 'workspace', root, [sourceUrl]));
+		fs.mkdirSync(skillPath, { recursive: true });
+		fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# PDF\n');
+		await recordInstalledPlugins(context, 'workspace', [{
+			id: 'alpha',
+			name: 'alpha',
+			sourceUrl,
+			scope: 'workspace',
+			targetPath: root,
+			installedAt: '2026-01-01T00:00:00.000Z',
+			items: [{ group: 'skills', name: 'pdf', path: skillPath, files: [path.join(skillPath, 'SKILL.md')] }]
+		}]);
+		const reinstall = await detectInstallConflicts(context, [alpha], buildInstallPayload([alpha], 'workspace', root, [sourceUrl]));
+		const other = await detectInstallConflicts(context, [beta], buildInstallPayload([beta], 'workspace', root, [sourceUrl]));
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(batch.map((conflict) => [conflict.plugin, conflict.conflictsWith, conflict.targetPath]), [['beta', 'alpha', skillPath]]);
+		assert.deepStrictEqual(reinstall, []);
+		assert.deepStrictEqual(other.map((conflict) => [conflict.conflictsWith, conflict.namespacedPath]), [['alpha', path.join(path.dirname(skillPath), 'beta-pdf')]]);
+	});
+
+	test('restores replaced files when moving an install into place fails', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-storage-'));
+		const context = { ...createTestContext(), globalStorageUri: vscode.Uri.file(storage) } as vscode.ExtensionContext;
+		const skillFile = path.join(root, 'skills', 'pdf', 'SKILL.md');
+		await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': '# PDF v1\n' }));
+
+		const rename = fs.promises.rename;
+		fs.promises.rename = async (from, to) => {
+			if (String(to).endsWith('forms.md')) {
+				throw new Error('disk full');
+			}
+			return rename(from, to);
+		};
+		let result;
+		try {
+			result = await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': '# PDF v2\n', 'forms.md': '# Forms\n' }));
+		} finally {
+			fs.promises.rename = rename;
+		}
+		const installed = fs.readFileSync(skillFile, 'utf8');
+		const entries = fs.readdirSync(root);
+		const staging = fs.readdirSync(path.join(storage, 'staging'));
+		const forms = fs.existsSync(path.join(path.dirname(skillFile), 'forms.md'));
+		fs.rmSync(root, { recursive: true, force: true });
+		fs.rmSync(storage, { recursive: true, force: true });
+
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(result.error, 'disk full');
+		assert.strictEqual(installed, '# PDF v1\n');
+		assert.strictEqual(forms, false);
+		assert.deepStrictEqual(entries, ['skills']);
+		assert.deepStrictEqual(staging, []);
+	});
+
+	test('removes staging folders that interrupted installs left in extension storage', async () => {
+		const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-storage-'));
+		const context = {
+			...createTestContext(),
+			storageUri: vscode.Uri.file(path.join(storage, 'workspace')),
+			globalStorageUri: vscode.Uri.file(path.join(storage, 'global'))
+		} as vscode.ExtensionContext;
+		const crashed = path.join(storage, 'global', 'staging', 'agent-plugins-staging-crashed');
+		const running = path.join(storage, 'workspace', 'staging', 'agent-plugins-staging-running');
+		fs.mkdirSync(crashed, { recursive: true });
+		fs.mkdirSync(running, { recursive: true });
+		const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+		fs.utimesSync(crashed, lastWeek, lastWeek);
+
+		await removeLeftoverStagingFolders(context);
+		const crashedExists = fs.existsSync(crashed);
+		const runningExists = fs.existsSync(running);
+		fs.rmSync(storage, { recursive: true, force: true });
+
+		assert.strictEqual(crashedExists, false);
+		assert.strictEqual(runningExists, true);
+	});
+
+	test('lists each folder once when the Git Trees API is unavailable', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const documentUrl = 'https://raw.githubusercontent.com/org/no-tree-market/main/.claude-plugin/marketplace.json';
+		const plugin = {
+			id: 'alpha',
+			name: 'alpha',
+			groups: [{ name: 'Skills', key: 'skills', items: [{ name: 'pdf', path: './skills/pdf', metadataFallbackUrls: [] }] }],
+			sourceUrl: 'https://github.com/org/no-tree-market',
+			marketplaceDocumentUrl: documentUrl,
+			branch: 'main',
+			raw: {}
+		};
+		const contentsUrl = (folder: string) => `https://api.github.com/repos/org/no-tree-market/contents/${folder}?ref=main`;
+		const listings: Record<string, unknown> = {
+			[contentsUrl('skills/pdf')]: [
+				{ type: 'file', name: 'SKILL.md', path: 'skills/pdf/SKILL.md' },
+				{ type: 'dir', name: 'scripts', path: 'skills/pdf/scripts' }
+			],
+			[contentsUrl('skills/pdf/scripts')]: [{ type: 'file', name: 'extract.py', path: 'skills/pdf/scripts/extract.py' }]
+		};
+
+		const { result: plan, requested } = await withStubbedFetch((url) => {
+			if (listings[url]) {
+				return new Response(JSON.stringify(listings[url]));
+			}
+			return url.startsWith('https://raw.githubusercontent.com/')
+				? new Response(`# ${url}\n`)
+				: new Response(JSON.stringify({ message: 'API rate limit exceeded' }), { status: 403, statusText: 'Forbidden' });
+		}, () => createInstallPlan(createTestContext(), [plugin], buildInstallPayload([plugin], 'workspace', root, [plugin.sourceUrl])));
+		fs.rmSync(root, { recursive: true, force: true });
+
+		const skillPath = path.join(root, ...INSTALL_LAYOUT_PRESETS.copilot.groups.skills.workspace.split('/'), 'pdf');
+		assert.deepStrictEqual(plan.plugins[0].items[0].files.map((file) => file.targetPath), [
+			path.join(skillPath, 'SKILL.md'),
+			path.join(skillPath, 'scripts', 'extract.py')
+		]);
+		assert.deepStrictEqual(requested.filter((url) => url.includes('/contents/')), [contentsUrl('skills/pdf'), contentsUrl('skills/pdf/scripts')]);
+	});
+
+	test('downloads plugin archives linked relative to the marketplace document', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const documentUrl = 'https://static.example/agents/marketplace.json';
+		const { plugins } = normalizeMarketplaceDocument(
+			{ plugins: [{ id: 'alpha', downloadUrl: 'archives/alpha.tgz' }, { id: 'beta', downloadUrl: '../beta.zip' }] },
+			documentUrl
+		);
+		const archive = zlib.gzipSync(Buffer.concat([tarEntry('alpha/skills/pdf/SKILL.md', '# PDF'), Buffer.alloc(1024)]));
+
+		const { result: plan } = await withStubbedFetch(
+			(url) => url === 'https://static.example/agents/archives/alpha.tgz' ? new Response(archive) : new Response(null, { status: 404 }),
+			() => createInstallPlan(createTestContext(), [plugins[0]], buildInstallPayload([plugins[0]], 'workspace', root, [documentUrl]))
+		);
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual(plugins.map((plugin) => plugin.downloadUrl), [
+			'https://static.example/agents/archives/alpha.tgz',
+			'https://static.example/beta.zip'
+		]);
+		assert.deepStrictEqual(plan.plugins[0].items.map((item) => [item.group, item.name, item.files[0].content.toString('utf8')]), [['skills', 'pdf', '# PDF']]);
+	});
+
+	test('refuses archives that expand past the extraction limits', () => {
+		const limits = { maxEntries: 2, maxTotalBytes: 64 * 1024 };
+		const bomb = Buffer.alloc(1024 * 1024);
+		const tarBomb = zlib.gzipSync(Buffer.concat([tarEntry('plugin/skills/pdf/SKILL.md', bomb.toString('utf8')), Buffer.alloc(1024)]));
+		const crowded = zlib.gzipSync(Buffer.concat([tarEntry('a.md', 'a'), tarEntry('b.md', 'b'), tarEntry('c.md', 'c'), Buffer.alloc(1024)]));
+
+		assert.throws(() => extractArchive(tarBomb, limits), /Archive expands to more than/);
+		assert.throws(() => extractArchive(zipWithEntry('skills/pdf/SKILL.md', bomb), limits), /Archive expands to more than/);
+		assert.throws(() => extractArchive(crowded, limits), /more than 2 entries/);
+		assert.strictEqual(extractArchive(zipWithEntry('skills/pdf/SKILL.md', Buffer.from('# PDF')), limits)[0].content.toString('utf8'), '# PDF');
+	});
+
+	test('rejects custom layout folders that leave their root', () => {
+		assert.strictEqual(isRelativeLayoutFolder('.my-agent/skills'), true);
+		assert.strictEqual(isRelativeLayoutFolder('{marketplace}/agents'), true);
+		assert.strictEqual(isRelativeLayoutFolder('../../.ssh'), false);
+		assert.strictEqual(isRelativeLayoutFolder('skills/../../outside'), false);
+		assert.strictEqual(isRelativeLayoutFolder('skills\\..\\..\\outside'), false);
+		assert.strictEqual(isRelativeLayoutFolder('/etc/skills'), false);
+		assert.strictEqual(isRelativeLayoutFolder('C:\\Users\\me\\.ssh'), false);
+		assert.strictEqual(isRelativeLayoutFolder('~/.ssh'), false);
+	});
+
+	test('flags locally edited files and keeps the edits when the update leaves them alone', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const context = createTestContext();
+		const skillPath = path.join(root, 'skills', 'pdf');
+		await applyInstallPlan(context, skillPlan(root, { 'SKILL.md': '# PDF\n', 'forms.md': '# Forms\n', 'tables.md': '# Tables\n' }));
+		fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# My PDF\n');
+		fs.writeFileSync(path.join(skillPath, 'forms.md'), '# My forms\n');
+
+		const plan = skillPlan(root, { 'SKILL.md': '# PDF v2\n', 'forms.md': '# Forms\n', 'tables.md': '# Tables v2\n' });
+		await markLocalEdits(context, plan);
+		const [skill, forms, tables] = plan.plugins[0].items[0].files;
+		const edits = getLocalEdits(plan);
+		const cancelled = await resolveLocalEdits(plan, async () => undefined);
+		const resolved = await resolveLocalEdits(plan, async () => new Map([[skill.targetPath, 'take' as const]]));
+		fs.rmSync(root, { recursive: true, force: true });
+
+		assert.deepStrictEqual([skill.locallyModified, forms.locallyModified, tables.locallyModified], [true, true, undefined]);
+		assert.deepStrictEqual([forms.action, forms.localEdit], ['unchanged', 'keep']);
+		assert.deepStrictEqual(edits.map((edit) => edit.file.targetPath), [skill.targetPath]);
+		assert.strictEqual(cancelled, false);
+		assert.strictEqual(resolved, true);
+		assert.deepStrictEqual([skill.action, skill.localEdit], ['overwrite', 'take']);
+		assert.strictEqual(tables.action, 'overwrite');
+	});
+
+	test('edits MCP configuration files without dropping comments', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const configPath = path.join(root, '.vscode', 'mcp.json');
+		fs.mkdirSync(path.dirname(configPath));
+		fs.writeFileSync(configPath, '{\n\t// Shared with the team\n\t"servers": {\n\t\t"docs": { "type": "http", "url": "https://docs.example/mcp" }\n\t}\n}\n');
+
+		await writeMcpServers([{
+			name: 'github',
+			key: 'github',
+			configPath,
+			config: { type: 'stdio', command: 'npx', env: { TOKEN: '${input:token}' } },
+			inputs: [{ id: 'token', type: 'promptString', password: true }],
+			missingValues: [],
+			action: 'create'
+		}]);
+		const written = fs.readFileSync(configPath, 'utf8');
+		await removeMcpServers(configPath, ['github']);
+		const removed = fs.readFileSync(configPath, 'utf8');
+		fs.rmSync(root, { recursive: true, force: true });
+
+		const config = parse(written) as { servers: Record<string, unknown>; inputs: Array<{ id: string }> };
+		assert.ok(written.includes('// Shared with the team'));
+		assert.deepStrictEqual(Object.keys(config.servers), ['docs', 'github']);
+		assert.deepStrictEqual(config.inputs.map((input) => input.id), ['token']);
+		assert.ok(removed.includes('// Shared with the team'));
+		assert.deepStrictEqual(Object.keys((parse(removed) as { servers: Record<string, unknown> }).servers), ['docs']);
+	});
+
+	test('hands user-scope MCP servers to VS Code instead of writing a user mcp.json', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-plugins-'));
+		const sourceUrl = 'https://marketplace.example/marketplace.json';
+		const plugin = {
+			id: 'beta',
+			name: 'Beta',
+			groups: [{
+				name: 'MCP Servers',
+				key: 'mcpServers',
+				items: [{ name: 'github', metadataFallbackUrls: [], mcpServer: { config: { command: 'npx', env: { TOKEN: '${AGENT_PLUGINS_TEST_TOKEN}' } } } }]
+			}],
+			sourceUrl,
+			marketplaceDocumentUrl: sourceUrl,
+			raw: {}
+		};
+
+		const plan = await createInstallPlan(createTestContext(), [plugin], buildInstallPayload([plugin], 'user', root, [sourceUrl]));
+		const written = fs.readdirSync(root);
+		fs.rmSync(root, { recursive: true, force: true });
+		const snippet = parse(createUserMcpSnippet(plan.userMcpServers)) as { servers: Record<string, { type: string }>; inputs: Array<{ id: string }> };
+
+		assert.strictEqual(getMcpConfigPath('user', root), undefined);
+		assert.strictEqual(getMcpConfigPath('workspace', root), path.join(root, '.vscode', 'mcp.json'));
+		assert.deepStrictEqual(plan.plugins[0].mcpServers, []);
+		assert.deepStrictEqual(plan.skippedGroups.map((entry) => [entry.group, entry.reason]), [['MCP Servers', USER_MCP_SERVERS_HANDED_OFF]]);
+		assert.deepStrictEqual(written, []);
+		assert.strictEqual(snippet.servers.github.type, 'stdio');
+		assert.deepStrictEqual(snippet.inputs.map((input) => input.id), ['AGENT_PLUGINS_TEST_TOKEN']);
+	});
+
+	test('resolves GitHub marketplaces on the repository\'s default branch', async () => {
+		const { result, requested } = await withStubbedFetch((url) => {
+			if (url === 'https://api.github.com/repos/org/trunk-market') {
+				return new Response(JSON.stringify({ default_branch: 'trunk' }));
+			}
+			return new Response(null, { status: url.includes('/trunk/.claude-plugin/') ? 200 : 404 });
+		}, () => resolveMarketplaceUrl('https://github.com/org/trunk-market'));
+
+		assert.strictEqual(result.documentUrl, 'https://raw.githubusercontent.com/org/trunk-market/trunk/.claude-plugin/marketplace.json');
+		assert.ok(!requested.some((url) => url.includes('/main/') || url.includes('/master/')));
+	});
+
+	test('falls back to main and master when the repository API fails', async () => {
+		const { result, requested } = await withStubbedFetch((url) => url.startsWith('https://api.github.com/')
+			? new Response(JSON.stringify({ message: 'API rate limit exceeded' }), { status: 403, statusText: 'Forbidden' })
+			: new Response(null, { status: url.includes('/master/.claude-plugin/') ? 200 : 404 }),
+		() => resolveMarketplaceUrl('https://github.com/org/rate-limited-market'));
+
+		assert.strictEqual(result.documentUrl, 'https://raw.githubusercontent.com/org/rate-limited-market/master/.claude-plugin/marketplace.json');
+		assert.deepStrictEqual(requested.slice(1), [
+			'https://raw.githubusercontent.com/org/rate-limited-market/main/.claude-plugin/marketplace.json',
+			'https://raw.githubusercontent.com/org/rate-limited-market/master/.claude-plugin/marketplace.json'
+		]);
+	});
+
+	test('keeps pinned marketplaces pinned when the marketplace list is saved', async () => {
+		const configuration = () => vscode.workspace.getConfiguration(CONFIG_SECTION);
+		const previous = configuration().inspect(MARKETPLACES_KEY)?.globalValue;
+		try {
+			await configuration().update(MARKETPLACES_KEY, [{ url: 'https://github.com/org/pinned', ref: 'v1.2.0' }, 'https://github.com/org/plain'], vscode.ConfigurationTarget.Global);
+			await updateMarketplaceUrls(['https://github.com/org/pinned', 'https://github.com/org/added'], vscode.ConfigurationTarget.Global);
+
+			assert.deepStrictEqual(configuration().inspect(MARKETPLACES_KEY)?.globalValue, [
+				{ url: 'https://github.com/org/pinned', ref: 'v1.2.0' },
+				'https://github.com/org/added'
+			]);
+			assert.strictEqual(getMarketplaceRefs().get('https://github.com/org/pinned'), 'v1.2.0');
+		} finally {
+			await configuration().update(MARKETPLACES_KEY, previous, vscode.ConfigurationTarget.Global);
+		}
+	});
+
+	test('fetches pinned marketplaces at their ref and caches each ref separately', async () => {
+		const { result, requested } = await withStubbedFetch(
+			(url) => new Response(null, { status: url.includes('/v2/.github/plugin/') ? 200 : 404 }),
+			() => resolveMarketplaceUrl('https://github.com/org/market', 'v2')
+		);
+		const url = 'https://github.com/org/market';
+
+		assert.strictEqual(result.documentUrl, 'https://raw.githubusercontent.com/org/market/v2/.github/plugin/marketplace.json');
+		assert.deepStrictEqual(requested, [
+			'https://raw.githubusercontent.com/org/market/v2/.claude-plugin/marketplace.json',
+			'https://raw.githubusercontent.com/org/market/v2/.github/plugin/marketplace.json'
+		]);
+		assert.notStrictEqual(allMarketplacesCacheKey([url], new Map([[url, 'v1']])), allMarketplacesCacheKey([url], new Map([[url, 'v2']])));
+		assert.notStrictEqual(allMarketplacesCacheKey([url], new Map([[url, 'v1']])), allMarketplacesCacheKey([url], new Map()));
+	});
 });